@@ -0,0 +1,108 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import {
+  getTestGnosisSafe,
+  getTestStorageSetter,
+  getTestToken,
+  getTransactionQueueInstance,
+  setRefundConditions,
+} from '../test/utils/setup'
+import { TransactionQueueClient } from '../src/utils/client'
+
+// Maximum difference between the refunded gas and the gas used by the transaction, can be overwritten with `BENCHMARK_MAX_GAS_DIFFERENCE`
+const MAX_GAS_DIFFERENCE = Number(process.env.BENCHMARK_MAX_GAS_DIFFERENCE || 1000)
+const MAX_FEE_PER_GAS = 1000
+
+const PAYLOAD_SIZES = [0, 256, 1024, 4096, 16384]
+// Calldata makeup of the payload, zero and non-zero bytes are charged differently
+const PAYLOADS: Record<string, (size: number) => string> = {
+  zero: (size) => '00'.repeat(size),
+  'non-zero': (size) => 'ab'.repeat(size),
+  mixed: (size) => '00ab00'.repeat(Math.ceil(size / 3)).slice(0, size * 2),
+}
+
+interface BenchmarkResult {
+  refund: string
+  receiver: string
+  payload: string
+  size: number
+  gasUsed: number
+  refundedGas: number
+  difference: number
+}
+
+describe('Refund accounting benchmark', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+  const results: BenchmarkResult[] = []
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestGnosisSafe(user1, [user1.address], 1, transactionQueueInstance.address)
+    const storageSetter = await getTestStorageSetter(user1)
+    const token = await getTestToken(user1)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+    // The refund receivers already hold tokens, a first transfer to an empty balance costs another 17100 gas
+    await token.transfer(user2.address, 1)
+    await token.transfer(user3.address, 1)
+    await token.transfer(safe.address, await token.balanceOf(user1.address))
+    await setRefundConditions(client, safe.address, user1, [AddressZero, token.address], MAX_FEE_PER_GAS, 10000000)
+
+    return {
+      safe,
+      storageSetter,
+      token,
+      client,
+    }
+  })
+
+  after(() => {
+    console.table(results)
+  })
+
+  for (const refund of ['native', 'token']) {
+    // The relayer is the refund receiver if the refund receiver is the zero address
+    for (const receiver of ['relayer', 'other']) {
+      for (const payload of Object.keys(PAYLOADS)) {
+        for (const size of PAYLOAD_SIZES) {
+          it(`should refund the gas used with a ${refund} refund to the ${receiver} and ${size} ${payload} bytes of payload`, async () => {
+            const { safe, storageSetter, token, client } = await setupTests()
+            const gasToken = refund === 'native' ? AddressZero : token.address
+            const refundReceiver = receiver === 'relayer' ? AddressZero : user3.address
+
+            const safeTx = await client.proposeContractCall(safe.address, storageSetter, 'setStorage', [73])
+            safeTx.data = `${safeTx.data}${PAYLOADS[payload](size)}`
+            const refundParams = client.buildRefundParams(safeTx, gasToken, 10000000, MAX_FEE_PER_GAS, refundReceiver)
+            const { payment, receipt } = await client.executeWithRefund(
+              safeTx,
+              [await client.signTransaction(user1, safeTx)],
+              refundParams,
+              await client.signRefundParams(user1, refundParams),
+            )
+
+            const refundedGas = payment.div(MAX_FEE_PER_GAS)
+            const difference = refundedGas.sub(receipt.gasUsed).toNumber()
+            results.push({
+              refund,
+              receiver,
+              payload,
+              size,
+              gasUsed: receipt.gasUsed.toNumber(),
+              refundedGas: refundedGas.toNumber(),
+              difference,
+            })
+
+            expect(BigNumber.from(difference).abs()).to.be.lte(MAX_GAS_DIFFERENCE)
+          })
+        }
+      }
+    }
+  }
+})
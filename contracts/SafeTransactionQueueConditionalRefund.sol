@@ -22,6 +22,15 @@ error RefundFailure();
 /// @notice Thrown when the gas supplied to the transaction is less than signed gas limit
 error NotEnoughGas();
 
+/// @notice Thrown when the refund params are executed after their validUntil timestamp
+error RefundParamsExpired();
+
+/// @notice Thrown when the nonce of a Safe should be set to a nonce that is not greater than the current one
+error InvalidNonce();
+
+/// @notice Thrown when refunds at the effective gas price are enabled for a gas token other than the native token
+error InvalidEffectiveGasPriceRefund();
+
 /**
  * @title SafeTransactionQueueConditionalRefund
  * @author @mikhailxyz
@@ -40,15 +49,44 @@ contract SafeTransactionQueueConditionalRefund is Enum {
     bytes32 private constant SAFE_TX_TYPEHASH =
         keccak256("SafeTx(address safe,address to,uint256 value,bytes data,uint8 operation,uint256 nonce)");
     bytes32 private constant REFUND_PARAMS_TYPEHASH =
-        keccak256("RefundParams(bytes32 safeTxHash,address gasToken,uint120 gasLimit,uint120 maxFeePerGas,address refundReceiver)");
+        keccak256(
+            "RefundParams(bytes32 safeTxHash,address gasToken,uint120 gasLimit,uint120 maxFeePerGas,address refundReceiver,uint64 validUntil)"
+        );
+
+    uint256 private constant TX_BASE_GAS = 21000;
+    // Gas used after the consumed gas was measured, calibrated with `yarn benchmark`.
+    // The native transfer assumes a cold refund receiver, the token transfer a refund receiver that already holds tokens
+    uint256 private constant NATIVE_REFUND_GAS_OVERHEAD = 19055;
+    uint256 private constant TOKEN_REFUND_GAS_OVERHEAD = 26175;
+    // Difference between a cold and a warm account access (EIP-2929), tx.origin is always warm
+    uint256 private constant WARM_ACCOUNT_ACCESS_DISCOUNT = 2500;
+    // keccak256("guard_manager.guard.address"), storage slot of the guard in the GuardManager of the Safe
+    uint256 private constant GUARD_STORAGE_SLOT = 0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8;
 
     event SuccessfulExecution(bytes32 txHash, uint256 payment);
+    event RefundConditionsChanged(
+        address indexed safe,
+        address indexed tokenAddress,
+        uint120 maxFeePerGas,
+        uint120 maxGasLimit,
+        address[] refundReceiverAllowlist
+    );
+    event EffectiveGasPriceRefundChanged(address indexed safe, address indexed tokenAddress, bool enabled);
+    event RefundGasOverheadChanged(address indexed safe, address indexed tokenAddress, uint32 refundGasOverhead);
+    event NoncesInvalidated(address indexed safe, uint256 previousNonce, uint256 nonce);
+    event GuardChecksChanged(address indexed safe, bool enabled);
 
     struct RefundCondition {
         uint120 maxFeePerGas;
         uint120 maxGasLimit;
         uint16 allowedRefundReceiversCount;
+        // Refund at min(maxFeePerGas, tx.gasprice) instead of the signed maxFeePerGas
+        bool refundEffectiveGasPrice;
+        // Gas added for the refund logic that runs after the consumed gas was measured, 0 uses the default of the gas token
+        uint32 refundGasOverhead;
         mapping(address => bool) refundReceiverAllowlist;
+        // Entries of the allowlist, required to remove them when the allowlist is replaced
+        address[] refundReceivers;
     }
 
     struct SafeTx {
@@ -64,11 +102,15 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         uint120 gasLimit;
         uint120 maxFeePerGas;
         address payable refundReceiver;
+        // Timestamp after which the refund params can't be executed anymore, 0 if they don't expire
+        uint64 validUntil;
     }
 
     mapping(address => uint256) public safeNonces;
     // safeAddress -> tokenAddress -> RefundCondition
     mapping(address => mapping(address => RefundCondition)) public safeRefundConditions;
+    // safeAddress -> whether the guard of the Safe checks transactions executed through the queue
+    mapping(address => bool) public safeGuardChecks;
 
     function domainSeparator() public view returns (bytes32) {
         return keccak256(abi.encode(DOMAIN_SEPARATOR_TYPEHASH, block.chainid, this));
@@ -78,7 +120,7 @@ contract SafeTransactionQueueConditionalRefund is Enum {
     /// @param tokenAddress Refund token address
     /// @param maxFeePerGas Maximum fee
     /// @param maxGasLimit Maximum gas limit that can be refunded, includes base gas (gas independent of the transaction execution)
-    /// @param refundReceiverAllowlist Addresses of allowed refund receivers
+    /// @param refundReceiverAllowlist Addresses of allowed refund receivers, replaces the current allowlist. Duplicates are ignored
     function setRefundConditions(
         address tokenAddress,
         uint120 maxFeePerGas,
@@ -88,16 +130,84 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         RefundCondition storage refundCondition = safeRefundConditions[msg.sender][tokenAddress];
         refundCondition.maxFeePerGas = maxFeePerGas;
         refundCondition.maxGasLimit = maxGasLimit;
-        refundCondition.allowedRefundReceiversCount = uint16(refundReceiverAllowlist.length);
 
+        address[] storage refundReceivers = refundCondition.refundReceivers;
         unchecked {
-            for (uint16 i = 0; i < refundCondition.allowedRefundReceiversCount; i++)
-                refundCondition.refundReceiverAllowlist[refundReceiverAllowlist[i]] = true;
+            for (uint256 i = 0; i < refundReceivers.length; i++) delete refundCondition.refundReceiverAllowlist[refundReceivers[i]];
+        }
+        delete refundCondition.refundReceivers;
+
+        unchecked {
+            for (uint256 i = 0; i < refundReceiverAllowlist.length; i++) {
+                address refundReceiver = refundReceiverAllowlist[i];
+                if (!refundCondition.refundReceiverAllowlist[refundReceiver]) {
+                    refundCondition.refundReceiverAllowlist[refundReceiver] = true;
+                    refundReceivers.push(refundReceiver);
+                }
+            }
+        }
+        refundCondition.allowedRefundReceiversCount = uint16(refundReceivers.length);
+
+        emit RefundConditionsChanged(msg.sender, tokenAddress, maxFeePerGas, maxGasLimit, refundReceivers);
+    }
+
+    /// @dev Enables refunds at the effective gas price for the given safe and gas token.
+    ///      The refund is paid at min(maxFeePerGas, tx.gasprice), so the relayer is not paid for the gap
+    ///      between the signed maxFeePerGas and the gas price it actually paid.
+    ///      Can only be enabled for refunds in the native token, since tx.gasprice is denominated in wei
+    /// @param tokenAddress Refund token address
+    /// @param enabled True to refund at the effective gas price, false to refund at the signed maxFeePerGas
+    function setEffectiveGasPriceRefund(address tokenAddress, bool enabled) public {
+        if (enabled && tokenAddress != address(0)) {
+            revert InvalidEffectiveGasPriceRefund();
+        }
+        safeRefundConditions[msg.sender][tokenAddress].refundEffectiveGasPrice = enabled;
+
+        emit EffectiveGasPriceRefundChanged(msg.sender, tokenAddress, enabled);
+    }
+
+    /// @dev Sets the gas that is refunded for the refund logic itself, e.g. to account for tokens with expensive transfers.
+    ///      The refund logic runs after the consumed gas was measured, so its cost can't be measured
+    /// @param tokenAddress Refund token address
+    /// @param refundGasOverhead Gas added to the measured gas, 0 to use the default overhead of the gas token
+    function setRefundGasOverhead(address tokenAddress, uint32 refundGasOverhead) public {
+        safeRefundConditions[msg.sender][tokenAddress].refundGasOverhead = refundGasOverhead;
+
+        emit RefundGasOverheadChanged(msg.sender, tokenAddress, refundGasOverhead);
+    }
+
+    /// @dev Returns the allowed refund receivers for the given safe and gas token
+    /// @param safe Safe address
+    /// @param tokenAddress Refund token address
+    /// @return Addresses of allowed refund receivers, empty if every refund receiver is allowed
+    function getRefundReceivers(address safe, address tokenAddress) external view returns (address[] memory) {
+        return safeRefundConditions[safe][tokenAddress].refundReceivers;
+    }
+
+    /// @dev Enables the checks of the guard of the Safe for transactions executed through the queue.
+    ///      The guard is called with the queue transaction hash, which differs from the transaction hash of the Safe
+    /// @param enabled True to call the guard of the Safe before and after the execution
+    function setGuardChecks(bool enabled) public {
+        safeGuardChecks[msg.sender] = enabled;
+
+        emit GuardChecksChanged(msg.sender, enabled);
+    }
+
+    /// @dev Sets the queue nonce of the Safe, so signed transactions with a lower nonce can't be executed anymore.
+    ///      A single nonce can also be cancelled by executing a transaction without effect at this nonce
+    /// @param nonce New nonce of the Safe, has to be greater than the current nonce
+    function invalidateNonces(uint256 nonce) public {
+        uint256 previousNonce = safeNonces[msg.sender];
+        if (nonce <= previousNonce) {
+            revert InvalidNonce();
         }
+        safeNonces[msg.sender] = nonce;
+
+        emit NoncesInvalidated(msg.sender, previousNonce, nonce);
     }
 
     /// @dev Executes a transaction from the Safe if it has the required amount of signatures. No Refund logic is performed.
-    /// Mention that guards are not taken into account.
+    ///      Calls the guard of the Safe if the Safe enabled guard checks
     /// @param safeTx Safe Transaction
     /// @param signatures Packed signature data ({bytes32 r}{bytes32 s}{uint8 v})
     /// @return success True if the transaction succeeded
@@ -119,10 +229,18 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         }
 
         {
+            address guard = getActiveGuard(safeTx.safe);
+            if (guard != address(0)) {
+                RefundParams memory noRefund;
+                checkGuardTransaction(guard, safeTx, signatures, noRefund);
+            }
             success = execute(safeTx.safe, safeTx.to, safeTx.value, safeTx.data, safeTx.operation);
             if (!success) {
                 revert ExecutionFailure();
             }
+            if (guard != address(0)) {
+                Guard(guard).checkAfterExecution(safeTxHash, success);
+            }
             emit SuccessfulExecution(safeTxHash, 0);
         }
     }
@@ -136,8 +254,8 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         bytes memory refundSignature
     ) external payable {
         // initial gas = 21k + non_zero_bytes * 16 + zero_bytes * 4
-        //            ~= 21k + calldata.length * [1/3 * 16 + 2/3 * 4]
-        uint256 startGas = gasleft() + 21000 + msg.data.length * 8;
+        uint256 startGas = gasleft();
+        startGas += TX_BASE_GAS + calldataGas();
         if (startGas < refundParams.gasLimit) {
             revert NotEnoughGas();
         }
@@ -166,12 +284,18 @@ contract SafeTransactionQueueConditionalRefund is Enum {
                 refundParams.gasToken,
                 refundParams.gasLimit,
                 refundParams.maxFeePerGas,
-                refundParams.refundReceiver
+                refundParams.refundReceiver,
+                refundParams.validUntil
             );
             bytes32 refundParamsHash = keccak256(encodedRefundParamsData);
             GnosisSafe(safeTx.safe).checkNSignatures(refundParamsHash, encodedRefundParamsData, refundSignature, 1);
         }
 
+        // solhint-disable-next-line not-rely-on-time
+        if (refundParams.validUntil != 0 && block.timestamp > refundParams.validUntil) {
+            revert RefundParamsExpired();
+        }
+
         RefundCondition storage refundCondition = safeRefundConditions[safeTx.safe][refundParams.gasToken];
         // If an allowlist is enforced, check if the refundReceiver is allowed and doesnt equal to zero address
         if (
@@ -187,15 +311,27 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         }
 
         {
-            execute(safeTx.safe, safeTx.to, safeTx.value, safeTx.data, safeTx.operation);
+            address guard = getActiveGuard(safeTx.safe);
+            if (guard != address(0)) {
+                checkGuardTransaction(guard, safeTx, txSignatures, refundParams);
+            }
+            bool success = execute(safeTx.safe, safeTx.to, safeTx.value, safeTx.data, safeTx.operation);
+            // Called before the refund, so the gas used by the guard is refunded
+            if (guard != address(0)) {
+                Guard(guard).checkAfterExecution(safeTxHash, success);
+            }
 
+            uint256 gasPrice = refundCondition.refundEffectiveGasPrice
+                ? min(refundParams.maxFeePerGas, tx.gasprice)
+                : refundParams.maxFeePerGas;
             uint256 payment = handleRefund(
                 safeTx.safe,
                 startGas,
                 refundParams.gasLimit,
-                refundParams.maxFeePerGas,
+                gasPrice,
                 refundParams.gasToken,
-                refundParams.refundReceiver
+                refundParams.refundReceiver,
+                refundCondition.refundGasOverhead
             );
             emit SuccessfulExecution(safeTxHash, payment);
         }
@@ -207,12 +343,22 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         uint120 gasLimit,
         uint256 gasPrice,
         address gasToken,
-        address payable refundReceiver
+        address payable refundReceiver,
+        uint256 refundGasOverhead
     ) private returns (uint256 payment) {
         // solhint-disable-next-line avoid-tx-origin
         address payable receiver = refundReceiver == address(0) ? payable(tx.origin) : refundReceiver;
-        // 23k as an upper bound to cover the rest of refund logic
-        uint256 gasConsumed = startGas - gasleft() + 23000;
+        if (refundGasOverhead == 0) {
+            if (gasToken != address(0)) {
+                refundGasOverhead = TOKEN_REFUND_GAS_OVERHEAD;
+                // solhint-disable-next-line avoid-tx-origin
+            } else if (receiver == tx.origin) {
+                refundGasOverhead = NATIVE_REFUND_GAS_OVERHEAD - WARM_ACCOUNT_ACCESS_DISCOUNT;
+            } else {
+                refundGasOverhead = NATIVE_REFUND_GAS_OVERHEAD;
+            }
+        }
+        uint256 gasConsumed = startGas - gasleft() + refundGasOverhead;
         payment = min(gasConsumed, gasLimit) * gasPrice;
 
         if (gasToken == address(0)) {
@@ -228,6 +374,33 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         }
     }
 
+    /// @dev Returns the gas charged for the calldata of the current call as defined in EIP-2028:
+    ///      4 gas per zero byte and 16 gas per non-zero byte. The non-zero bytes are counted per 32 byte word
+    /// @return calldataCost Gas charged for the calldata
+    function calldataGas() private pure returns (uint256 calldataCost) {
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            let lowBits := 0x0101010101010101010101010101010101010101010101010101010101010101
+            let nonZeroBytes := 0
+            for {
+                let offset := 0
+            } lt(offset, calldatasize()) {
+                offset := add(offset, 0x20)
+            } {
+                // Reads beyond the calldata are padded with zero bytes, so they are not counted
+                let word := calldataload(offset)
+                // Folds the bits of every byte into its lowest bit, which is set if the byte is not zero
+                word := or(word, shr(4, word))
+                word := or(word, shr(2, word))
+                word := or(word, shr(1, word))
+                word := and(word, lowBits)
+                // The multiplication sums up the lowest bits of all bytes in the highest byte
+                nonZeroBytes := add(nonZeroBytes, shr(248, mul(word, lowBits)))
+            }
+            calldataCost := add(mul(calldatasize(), 4), mul(nonZeroBytes, 12))
+        }
+    }
+
     /// @dev Returns transaction bytes to be signed by owners.
     /// @param safe Safe address
     /// @param to Safe address
@@ -273,16 +446,18 @@ contract SafeTransactionQueueConditionalRefund is Enum {
     /// @param gasToken Gas Token address
     /// @param maxFeePerGas Maximum fee
     /// @param refundReceiver Refund recipient address
+    /// @param validUntil Timestamp after which the refund params expire, 0 if they don't expire
     /// @return Refund params bytes
     function encodeRefundParamsData(
         bytes32 safeTxHash,
         address gasToken,
         uint120 gasLimit,
         uint120 maxFeePerGas,
-        address refundReceiver
+        address refundReceiver,
+        uint64 validUntil
     ) public view returns (bytes memory) {
         bytes32 safeOperationHash = keccak256(
-            abi.encode(REFUND_PARAMS_TYPEHASH, safeTxHash, gasToken, gasLimit, maxFeePerGas, refundReceiver)
+            abi.encode(REFUND_PARAMS_TYPEHASH, safeTxHash, gasToken, gasLimit, maxFeePerGas, refundReceiver, validUntil)
         );
 
         return abi.encodePacked(bytes1(0x19), bytes1(0x01), domainSeparator(), safeOperationHash);
@@ -294,15 +469,17 @@ contract SafeTransactionQueueConditionalRefund is Enum {
     /// @param gasLimit Transaction gas limit
     /// @param maxFeePerGas Maximum fee
     /// @param refundReceiver Refund recipient address
+    /// @param validUntil Timestamp after which the refund params expire, 0 if they don't expire
     /// @return Refund params hash
     function getRefundParamsHash(
         bytes32 safeTxHash,
         address gasToken,
         uint120 gasLimit,
         uint120 maxFeePerGas,
-        address refundReceiver
+        address refundReceiver,
+        uint64 validUntil
     ) public view returns (bytes32) {
-        return keccak256(encodeRefundParamsData(safeTxHash, gasToken, gasLimit, maxFeePerGas, refundReceiver));
+        return keccak256(encodeRefundParamsData(safeTxHash, gasToken, gasLimit, maxFeePerGas, refundReceiver, validUntil));
     }
 
     /// @dev Internal function to execute a transaction from the Safe
@@ -322,6 +499,33 @@ contract SafeTransactionQueueConditionalRefund is Enum {
         success = GnosisSafe(payable(safe)).execTransactionFromModule(to, value, data, operation);
     }
 
+    /// @dev Returns the guard that has to check the transactions of the Safe, zero if the Safe has no guard or didn't enable guard checks
+    /// @param safe Safe address
+    /// @return guard Address of the guard
+    function getActiveGuard(address safe) public view returns (address guard) {
+        if (safeGuardChecks[safe]) {
+            guard = abi.decode(GnosisSafe(payable(safe)).getStorageAt(GUARD_STORAGE_SLOT, 1), (address));
+        }
+    }
+
+    /// @dev Calls `checkTransaction` of the guard with the queue transaction.
+    ///      The refund params are passed as the payment params of the Safe transaction, `safeTxGas` and `baseGas` are always 0
+    function checkGuardTransaction(address guard, SafeTx memory safeTx, bytes memory signatures, RefundParams memory refundParams) private {
+        Guard(guard).checkTransaction(
+            safeTx.to,
+            safeTx.value,
+            safeTx.data,
+            safeTx.operation,
+            0,
+            0,
+            refundParams.maxFeePerGas,
+            refundParams.gasToken,
+            refundParams.refundReceiver,
+            signatures,
+            msg.sender
+        );
+    }
+
     /**
      * @dev A function to check if a given address is a valid refund receiver for a given Safe and token
      * @param safe Safe address
@@ -12,6 +12,14 @@ contract GnosisSafeMock {
         module = _module;
     }
 
+    function isOwner(address _owner) public view returns (bool) {
+        return _owner == owner;
+    }
+
+    function getThreshold() public pure returns (uint256) {
+        return 1;
+    }
+
     function signatureSplit(bytes memory signature)
         internal
         pure
@@ -80,6 +88,27 @@ contract GnosisSafeMock {
         else (success, ) = to.call{value: value}(data);
     }
 
+    // Same storage slot as the GuardManager of the Safe, so the guard can be read with getStorageAt
+    function setGuard(address guard) external {
+        bytes32 slot = 0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            sstore(slot, guard)
+        }
+    }
+
+    function getStorageAt(uint256 offset, uint256 length) public view returns (bytes memory) {
+        bytes memory result = new bytes(length * 32);
+        for (uint256 index = 0; index < length; index++) {
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                let word := sload(add(offset, index))
+                mstore(add(add(result, 0x20), mul(index, 0x20)), word)
+            }
+        }
+        return result;
+    }
+
     receive() external payable {}
 
     fallback() external payable {}
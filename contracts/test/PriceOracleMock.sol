@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+/// @dev Minimal Chainlink AggregatorV3 compatible price feed
+contract PriceOracleMock {
+    uint8 public immutable decimals;
+    int256 public answer;
+    uint256 public updatedAt;
+    uint80 public roundId;
+
+    constructor(uint8 _decimals, int256 _answer) {
+        decimals = _decimals;
+        setAnswer(_answer);
+    }
+
+    function setAnswer(int256 _answer) public {
+        answer = _answer;
+        updatedAt = block.timestamp;
+        roundId++;
+    }
+
+    function setUpdatedAt(uint256 _updatedAt) public {
+        updatedAt = _updatedAt;
+    }
+
+    function latestRoundData() public view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, updatedAt, updatedAt, roundId);
+    }
+}
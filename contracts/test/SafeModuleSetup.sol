@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+import "@gnosis.pm/safe-contracts/contracts/GnosisSafe.sol";
+import "@gnosis.pm/safe-contracts/contracts/handler/CompatibilityFallbackHandler.sol";
+import "@gnosis.pm/safe-contracts/contracts/proxies/GnosisSafeProxyFactory.sol";
+
+contract SafeModuleSetup {
+    /// @dev Enables a module during the Safe setup. Has to be called via delegatecall,
+    ///      so the Safe calls itself and passes the authorization check of enableModule.
+    /// @param module Module address
+    function enableModule(address module) external {
+        GnosisSafe(payable(address(this))).enableModule(module);
+    }
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+import "@gnosis.pm/safe-contracts/contracts/base/GuardManager.sol";
+
+/// @dev Guard that records the checked transactions and rejects transactions to a blocked target
+contract TestGuard is Guard {
+    event TransactionChecked(
+        address to,
+        uint256 value,
+        bytes data,
+        Enum.Operation operation,
+        uint256 gasPrice,
+        address gasToken,
+        address refundReceiver,
+        address msgSender
+    );
+    event ExecutionChecked(bytes32 txHash, bool success);
+
+    address public blockedTarget;
+    bool public rejectFailedExecutions;
+
+    function setBlockedTarget(address _blockedTarget) public {
+        blockedTarget = _blockedTarget;
+    }
+
+    function setRejectFailedExecutions(bool _rejectFailedExecutions) public {
+        rejectFailedExecutions = _rejectFailedExecutions;
+    }
+
+    function checkTransaction(
+        address to,
+        uint256 value,
+        bytes memory data,
+        Enum.Operation operation,
+        uint256,
+        uint256,
+        uint256 gasPrice,
+        address gasToken,
+        address payable refundReceiver,
+        bytes memory,
+        address msgSender
+    ) external override {
+        require(to != blockedTarget, "TestGuard: Blocked target");
+        emit TransactionChecked(to, value, data, operation, gasPrice, gasToken, refundReceiver, msgSender);
+    }
+
+    function checkAfterExecution(bytes32 txHash, bool success) external override {
+        require(success || !rejectFailedExecutions, "TestGuard: Failed execution");
+        emit ExecutionChecked(txHash, success);
+    }
+}
@@ -36,6 +36,9 @@ if (['mainnet', 'rinkeby', 'kovan', 'goerli', 'ropsten', 'mumbai', 'polygon'].in
 import './src/tasks/local_verify'
 import './src/tasks/deploy_contracts'
 import './src/tasks/show_codesize'
+import './src/tasks/relayer'
+import './src/tasks/queue'
+import './src/tasks/deployment_registry'
 
 const primarySolidityVersion = SOLIDITY_VERSION || '0.8.9'
 const soliditySettings = !!SOLIDITY_SETTINGS ? JSON.parse(SOLIDITY_SETTINGS) : undefined
@@ -111,6 +114,11 @@ const userConfig: HardhatUserConfig = {
   mocha: {
     timeout: 2000000,
   },
+  codesize: {
+    budgets: {
+      SafeTransactionQueueConditionalRefund: 18000,
+    },
+  },
   etherscan: {
     apiKey: ETHERSCAN_API_KEY,
   },
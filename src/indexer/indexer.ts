@@ -0,0 +1,148 @@
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, Event, providers } from 'ethers'
+import { TransactionQueueClient } from '../utils/client'
+import { ExecutionRecord, ExecutionStore } from './store'
+
+interface IndexerConfig {
+  // First block that is indexed if the store is empty, usually the deployment block of the queue
+  fromBlock: number
+  // Number of blocks that are checked for reorgs on every sync
+  reorgDepth: number
+  // Maximum number of blocks per log query
+  batchSize: number
+}
+
+const DEFAULT_INDEXER_CONFIG: IndexerConfig = {
+  fromBlock: 0,
+  reorgDepth: 12,
+  batchSize: 2000,
+}
+
+// Indexes the `SuccessfulExecution` events of the queue joined with the decoded calldata of the executing transaction
+class ExecutionIndexer {
+  readonly config: IndexerConfig
+  private syncing: Promise<ExecutionRecord[]> = Promise.resolve([])
+
+  constructor(readonly client: TransactionQueueClient, readonly store: ExecutionStore, config: Partial<IndexerConfig> = {}) {
+    this.config = { ...DEFAULT_INDEXER_CONFIG, ...config }
+  }
+
+  private get provider(): providers.Provider {
+    return this.client.contract.provider
+  }
+
+  // Indexes all blocks up to the given block (default latest), concurrent calls are queued
+  async sync(toBlock?: number): Promise<ExecutionRecord[]> {
+    this.syncing = this.syncing.catch(() => []).then(() => this.syncBlocks(toBlock))
+    return this.syncing
+  }
+
+  // Syncs on every new block until the returned function is called
+  follow(onRecords?: (records: ExecutionRecord[]) => void, onError?: (error: any) => void): () => void {
+    const listener = (blockNumber: number) => {
+      this.sync(blockNumber)
+        .then((records) => {
+          if (onRecords && records.length > 0) onRecords(records)
+        })
+        .catch((error) => onError && onError(error))
+    }
+    this.provider.on('block', listener)
+    return () => {
+      this.provider.off('block', listener)
+    }
+  }
+
+  // Removes the records of reorged blocks and returns the first block that has to be indexed again
+  async handleReorgs(): Promise<number> {
+    const windowStart = this.store.lastBlock - this.config.reorgDepth + 1
+    // Blocks between two indexed blocks are not stored, so everything after the last matching block is indexed again
+    let lastMatchingBlock = windowStart - 1
+    for (const blockNumber of this.store.getIndexedBlocks(windowStart)) {
+      const block = await this.provider.getBlock(blockNumber)
+      if (!block || block.hash !== this.store.getBlockHash(blockNumber)) {
+        this.store.removeFrom(lastMatchingBlock + 1)
+        break
+      }
+      lastMatchingBlock = blockNumber
+    }
+    return this.store.lastBlock + 1
+  }
+
+  private async syncBlocks(toBlock?: number): Promise<ExecutionRecord[]> {
+    const fromBlock = Math.max(await this.handleReorgs(), this.config.fromBlock)
+    const lastBlock = toBlock === undefined ? (await this.provider.getBlock('latest')).number : toBlock
+    const records: ExecutionRecord[] = []
+    for (let start = fromBlock; start <= lastBlock; start += this.config.batchSize) {
+      const end = Math.min(start + this.config.batchSize - 1, lastBlock)
+      const events = await this.client.contract.queryFilter(this.client.contract.filters.SuccessfulExecution(), start, end)
+      const blocks = new Map<number, Event[]>()
+      for (const event of events) {
+        blocks.set(event.blockNumber, [...(blocks.get(event.blockNumber) || []), event])
+      }
+      // The hash of the last block of the batch is stored as well, so reorgs of blocks without events are detected
+      if (!blocks.has(end)) blocks.set(end, [])
+      for (const blockNumber of Array.from(blocks.keys()).sort((left, right) => left - right)) {
+        const blockEvents = blocks.get(blockNumber)!
+        const blockRecords: ExecutionRecord[] = []
+        for (const event of blockEvents) {
+          blockRecords.push(await this.buildRecord(event, blockEvents.length))
+        }
+        const blockHash = blockEvents.length > 0 ? blockEvents[0].blockHash : (await this.provider.getBlock(blockNumber)).hash
+        this.store.addBlock(blockNumber, blockHash, blockRecords)
+        records.push(...blockRecords)
+      }
+    }
+    return records
+  }
+
+  private async buildRecord(event: Event, eventsInBlock: number): Promise<ExecutionRecord> {
+    const transaction = await event.getTransaction()
+    const record: ExecutionRecord = {
+      safeTxHash: event.args!.txHash,
+      payment: event.args!.payment.toString(),
+      blockNumber: event.blockNumber,
+      blockHash: event.blockHash,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+      relayer: transaction.from,
+    }
+    if (transaction.to?.toLowerCase() !== this.client.address.toLowerCase()) return record
+
+    const { name, args } = this.client.contract.interface.parseTransaction(transaction)
+    const { safe, to, value, data, operation } = args.safeTx
+    record.safe = safe
+    record.to = to
+    record.value = value.toString()
+    record.operation = operation
+    record.nonce = await this.findNonce(record, data, eventsInBlock)
+    if (name === 'execTransactionWithRefund') {
+      const { gasToken, refundReceiver } = args.refundParams
+      record.gasToken = gasToken
+      record.refundReceiver = refundReceiver === AddressZero ? transaction.from : refundReceiver
+    }
+    return record
+  }
+
+  // The nonce is not part of the calldata, it is recovered by matching the hash against the nonces used in the block.
+  // Reading the nonce before the block requires an archive node for older blocks, otherwise the nonce is left undefined
+  private async findNonce(record: ExecutionRecord, data: string, eventsInBlock: number): Promise<string | undefined> {
+    let startNonce: BigNumber
+    try {
+      startNonce = await this.client.contract.safeNonces(record.safe, { blockTag: record.blockNumber - 1 })
+    } catch {
+      return undefined
+    }
+    for (let i = 0; i < eventsInBlock; i++) {
+      const nonce = startNonce.add(i).toString()
+      const { safe, to, value, operation } = record
+      if (
+        this.client.getTransactionHash({ safe: safe!, to: to!, value: value!, data, operation: operation!, nonce }) === record.safeTxHash
+      ) {
+        return nonce
+      }
+    }
+    return undefined
+  }
+}
+
+export { IndexerConfig, DEFAULT_INDEXER_CONFIG, ExecutionIndexer }
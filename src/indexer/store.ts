@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs'
+import { BigNumber } from 'ethers'
+
+interface ExecutionRecord {
+  safeTxHash: string
+  payment: string
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+  // Sender of the transaction that executed the queue transaction
+  relayer: string
+  // Decoded from the calldata, undefined if the queue was not called directly
+  safe?: string
+  to?: string
+  value?: string
+  operation?: number
+  // Undefined if the provider can't read the state before the block, e.g. for older blocks without an archive node
+  nonce?: string
+  // Only set for `execTransactionWithRefund`, the refund receiver is the relayer if the signed refund receiver is the zero address
+  gasToken?: string
+  refundReceiver?: string
+}
+
+interface ExecutionStoreFile {
+  lastBlock: number
+  blockHashes: Record<string, string>
+  records: ExecutionRecord[]
+}
+
+// Local store of the indexed executions, keeps the hashes of the indexed blocks to detect reorgs
+class ExecutionStore {
+  private records: ExecutionRecord[] = []
+  private readonly blockHashes = new Map<number, string>()
+
+  constructor(public lastBlock = -1) {}
+
+  static async load(path: string): Promise<ExecutionStore> {
+    const file: ExecutionStoreFile = JSON.parse(await fs.readFile(path, 'utf8'))
+    const store = new ExecutionStore(file.lastBlock)
+    for (const blockNumber of Object.keys(file.blockHashes)) {
+      store.blockHashes.set(Number(blockNumber), file.blockHashes[blockNumber])
+    }
+    store.records = file.records
+    return store
+  }
+
+  async save(path: string): Promise<void> {
+    const file: ExecutionStoreFile = { lastBlock: this.lastBlock, blockHashes: {}, records: this.records }
+    this.blockHashes.forEach((hash, blockNumber) => {
+      file.blockHashes[blockNumber] = hash
+    })
+    await fs.writeFile(path, JSON.stringify(file, null, 2))
+  }
+
+  addBlock(blockNumber: number, blockHash: string, records: ExecutionRecord[] = []): void {
+    if (this.blockHashes.has(blockNumber)) throw Error(`Block ${blockNumber} is already indexed`)
+    this.blockHashes.set(blockNumber, blockHash)
+    this.records.push(...records)
+    this.lastBlock = Math.max(this.lastBlock, blockNumber)
+  }
+
+  getBlockHash(blockNumber: number): string | undefined {
+    return this.blockHashes.get(blockNumber)
+  }
+
+  // Block numbers with a known hash, starting at the given block
+  getIndexedBlocks(fromBlock: number): number[] {
+    const blocks: number[] = []
+    this.blockHashes.forEach((_, blockNumber) => {
+      if (blockNumber >= fromBlock) blocks.push(blockNumber)
+    })
+    return blocks.sort((left, right) => left - right)
+  }
+
+  // Drops everything indexed from the given block on, used when the block was reorged
+  removeFrom(blockNumber: number): ExecutionRecord[] {
+    const removed = this.records.filter((record) => record.blockNumber >= blockNumber)
+    this.records = this.records.filter((record) => record.blockNumber < blockNumber)
+    this.getIndexedBlocks(blockNumber).forEach((indexed) => this.blockHashes.delete(indexed))
+    this.lastBlock = Math.min(this.lastBlock, blockNumber - 1)
+    return removed
+  }
+
+  getRecords(): ExecutionRecord[] {
+    return [...this.records]
+  }
+
+  getSafeHistory(safe: string): ExecutionRecord[] {
+    return this.records.filter((record) => record.safe?.toLowerCase() === safe.toLowerCase())
+  }
+
+  // Total refunds per gas token
+  getRefundsPerToken(): Record<string, string> {
+    return this.sumPayments(
+      this.records.filter((record) => record.gasToken !== undefined),
+      (record) => record.gasToken!,
+    )
+  }
+
+  // Total refunds of the gas token per receiver of the refund
+  getRefundsPerRelayer(gasToken: string): Record<string, string> {
+    return this.sumPayments(
+      this.records.filter((record) => record.gasToken?.toLowerCase() === gasToken.toLowerCase()),
+      (record) => record.refundReceiver!,
+    )
+  }
+
+  private sumPayments(records: ExecutionRecord[], key: (record: ExecutionRecord) => string): Record<string, string> {
+    const totals: Record<string, string> = {}
+    for (const record of records) {
+      totals[key(record)] = BigNumber.from(totals[key(record)] || 0)
+        .add(record.payment)
+        .toString()
+    }
+    return totals
+  }
+}
+
+export { ExecutionRecord, ExecutionStoreFile, ExecutionStore }
@@ -0,0 +1,57 @@
+import http from 'http'
+import { RelayRequestError, RelayerService } from './service'
+
+const STATUS_PATH = /^\/transactions\/(0x[0-9a-fA-F]{64})$/
+
+// Relay requests are small, the limit keeps clients from buffering arbitrary amounts of data in the relayer
+const MAX_BODY_SIZE = 1024 * 1024
+
+const readBody = (req: http.IncomingMessage, maxBodySize: number): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const onData = (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBodySize) {
+        // The rest of the body is discarded, so the response can still be sent
+        req.off('data', onData)
+        req.resume()
+        return reject(new RelayRequestError(`Request body exceeds ${maxBodySize} bytes`, 413))
+      }
+      chunks.push(chunk)
+    }
+    req.on('data', onData)
+    req.on('error', reject)
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')))
+      } catch {
+        reject(new RelayRequestError('Request body is not valid JSON'))
+      }
+    })
+  })
+
+const respond = (res: http.ServerResponse, statusCode: number, body: any) => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+// POST /transactions submits a relay request, GET /transactions/:safeTxHash returns its status
+export const createRelayerServer = (service: RelayerService, maxBodySize = MAX_BODY_SIZE): http.Server => {
+  return http.createServer(async (req, res) => {
+    try {
+      if (req.method === 'POST' && req.url === '/transactions') {
+        return respond(res, 202, await service.submit(await readBody(req, maxBodySize)))
+      }
+      const statusMatch = req.method === 'GET' && req.url?.match(STATUS_PATH)
+      if (statusMatch) {
+        const status = await service.getStatus(statusMatch[1].toLowerCase())
+        return status ? respond(res, 200, status) : respond(res, 404, { error: 'Unknown transaction' })
+      }
+      respond(res, 404, { error: 'Not found' })
+    } catch (e) {
+      if (e instanceof RelayRequestError) respond(res, e.statusCode, { error: e.message })
+      else respond(res, 500, { error: (e as Error).message })
+    }
+  })
+}
@@ -0,0 +1,174 @@
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, utils } from 'ethers'
+import { TransactionQueueClient } from '../utils/client'
+import { RefundParams, SafeSignature, SafeTransaction, buildSignatureBytes, executeTxWithRefund } from '../utils/execution'
+import { decodeTransactionQueueError } from '../utils/errors'
+import { GasTokenPricer } from '../utils/pricing'
+import { estimateRefund, fetchGasFees } from '../utils/refund'
+
+type RelayState = 'submitted' | 'executed' | 'failed'
+
+interface RelayRequest {
+  safeTx: SafeTransaction
+  signatures: SafeSignature[]
+  refundParams: RefundParams
+  refundSignature: SafeSignature
+}
+
+interface RelayStatus {
+  safeTxHash: string
+  state: RelayState
+  transactionHash: string
+  payment?: string
+}
+
+interface RelayerConfig {
+  // Refund tokens the relayer accepts
+  gasTokens: string[]
+  // Converts the execution cost from wei into the gas token, required for gas tokens other than the native token
+  pricer?: GasTokenPricer
+}
+
+class RelayRequestError extends Error {
+  constructor(message: string, readonly statusCode: number = 400) {
+    super(message)
+  }
+}
+
+const isSignature = (signature: any): signature is SafeSignature =>
+  !!signature && utils.isAddress(signature.signer) && utils.isHexString(signature.data)
+
+function validateRelayRequest(request: any): RelayRequest {
+  const { safeTx, signatures, refundParams, refundSignature } = request || {}
+  if (!safeTx || !utils.isAddress(safeTx.safe) || !utils.isAddress(safeTx.to)) throw new RelayRequestError('Invalid safe transaction')
+  if (!utils.isHexString(safeTx.data) || ![0, 1].includes(safeTx.operation)) throw new RelayRequestError('Invalid safe transaction')
+  try {
+    BigNumber.from(safeTx.value)
+    BigNumber.from(safeTx.nonce)
+  } catch {
+    throw new RelayRequestError('Invalid safe transaction')
+  }
+  if (!Array.isArray(signatures) || signatures.length === 0 || !signatures.every(isSignature))
+    throw new RelayRequestError('Invalid transaction signatures')
+  if (!refundParams || !utils.isHexString(refundParams.safeTxHash, 32) || !utils.isAddress(refundParams.gasToken))
+    throw new RelayRequestError('Invalid refund params')
+  if (!utils.isAddress(refundParams.refundReceiver)) throw new RelayRequestError('Invalid refund params')
+  try {
+    BigNumber.from(refundParams.gasLimit)
+    BigNumber.from(refundParams.maxFeePerGas)
+    BigNumber.from(refundParams.validUntil)
+  } catch {
+    throw new RelayRequestError('Invalid refund params')
+  }
+  if (!isSignature(refundSignature)) throw new RelayRequestError('Invalid refund signature')
+
+  return { safeTx, signatures, refundParams, refundSignature }
+}
+
+class RelayerService {
+  private readonly statuses = new Map<string, RelayStatus>()
+  // Transactions that are validated or broadcast right now, reserved before the first await so concurrent requests can't relay twice
+  private readonly pending = new Set<string>()
+
+  constructor(readonly client: TransactionQueueClient, readonly config: RelayerConfig = { gasTokens: [AddressZero] }) {
+    if (!config.pricer && config.gasTokens.some((token) => token !== AddressZero))
+      throw Error('A pricer is required to accept gas tokens other than the native token')
+  }
+
+  async submit(request: any): Promise<RelayStatus> {
+    const validated = validateRelayRequest(request)
+    const { safeTx, refundParams } = validated
+    const safeTxHash = this.client.getTransactionHash(safeTx)
+    if (refundParams.safeTxHash.toLowerCase() !== safeTxHash.toLowerCase())
+      throw new RelayRequestError('Refund params are not signed for this transaction')
+
+    const knownStatus = this.statuses.get(safeTxHash)
+    if (this.pending.has(safeTxHash) || (knownStatus && knownStatus.state !== 'failed'))
+      throw new RelayRequestError('Transaction was already submitted', 409)
+
+    this.pending.add(safeTxHash)
+    try {
+      return await this.relay(safeTxHash, validated)
+    } finally {
+      this.pending.delete(safeTxHash)
+    }
+  }
+
+  private async relay(safeTxHash: string, { safeTx, signatures, refundParams, refundSignature }: RelayRequest): Promise<RelayStatus> {
+    const nonce = await this.client.getNonce(safeTx.safe)
+    if (!nonce.eq(safeTx.nonce)) throw new RelayRequestError(`Transaction nonce ${safeTx.nonce} does not match queue nonce ${nonce}`)
+
+    if (!this.config.gasTokens.some((token) => token.toLowerCase() === refundParams.gasToken.toLowerCase()))
+      throw new RelayRequestError(`Gas token ${refundParams.gasToken} is not accepted`)
+
+    const relayerAddress = await this.client.contract.signer.getAddress()
+    if (refundParams.refundReceiver !== AddressZero && refundParams.refundReceiver.toLowerCase() !== relayerAddress.toLowerCase())
+      throw new RelayRequestError('Refund receiver is not the relayer')
+
+    const safeTxData = { safe: safeTx.safe, to: safeTx.to, value: safeTx.value, data: safeTx.data, operation: safeTx.operation }
+    const txSignatureBytes = buildSignatureBytes([...signatures])
+    const refundSignatureBytes = buildSignatureBytes([refundSignature])
+    let gasEstimate: BigNumber
+    try {
+      gasEstimate = await this.client.contract.estimateGas.execTransactionWithRefund(
+        safeTxData,
+        txSignatureBytes,
+        refundParams,
+        refundSignatureBytes,
+      )
+    } catch (e) {
+      throw new RelayRequestError(`Simulation failed: ${decodeTransactionQueueError(e).message}`)
+    }
+
+    const { data } = await this.client.contract.populateTransaction.execTransactionWithRefund(
+      safeTxData,
+      txSignatureBytes,
+      refundParams,
+      refundSignatureBytes,
+    )
+    const conditions = await this.client.readConditions(safeTx.safe, refundParams.gasToken)
+    const fees = await fetchGasFees(this.client.contract.provider)
+    const estimate = estimateRefund(refundParams, data!!, gasEstimate, fees, conditions, undefined, relayerAddress)
+    // The estimate compares the payment with the cost in wei, for other gas tokens the cost is converted first
+    const executionCost =
+      refundParams.gasToken === AddressZero
+        ? estimate.executionCost
+        : await this.config.pricer!!.getTokenAmount(refundParams.gasToken, estimate.executionCost)
+    if (estimate.payment.lt(executionCost))
+      throw new RelayRequestError(`Refund of ${estimate.payment} does not cover execution cost of ${executionCost}`)
+
+    const gasLimit = BigNumber.from(refundParams.gasLimit)
+    const tx = await executeTxWithRefund(this.client.contract, safeTx, signatures, refundParams, refundSignature, {
+      gasLimit: gasEstimate.gt(gasLimit) ? gasEstimate : gasLimit,
+      gasPrice: estimate.effectiveGasPrice,
+    })
+    const status: RelayStatus = { safeTxHash, state: 'submitted', transactionHash: tx.hash }
+    this.statuses.set(safeTxHash, status)
+
+    return status
+  }
+
+  async getStatus(safeTxHash: string): Promise<RelayStatus | undefined> {
+    const status = this.statuses.get(safeTxHash)
+    if (!status || status.state !== 'submitted') return status
+
+    const receipt = await this.client.contract.provider.getTransactionReceipt(status.transactionHash)
+    if (!receipt) return status
+
+    if (receipt.status !== 1) {
+      status.state = 'failed'
+      return status
+    }
+    for (const log of receipt.logs) {
+      if (log.address !== this.client.contract.address) continue
+      const event = this.client.contract.interface.parseLog(log)
+      if (event.name === 'SuccessfulExecution' && event.args.txHash === safeTxHash) {
+        status.payment = event.args.payment.toString()
+      }
+    }
+    status.state = 'executed'
+    return status
+  }
+}
+
+export { RelayState, RelayRequest, RelayStatus, RelayerConfig, RelayRequestError, RelayerService, validateRelayRequest }
@@ -0,0 +1,60 @@
+import { existsSync, promises as fs } from 'fs'
+import path from 'path'
+import 'hardhat-deploy'
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { DeploymentRegistry, calculateDeterministicAddress, writeRegistry } from '../utils/registry'
+
+const CONTRACT_NAME = 'SafeTransactionQueueConditionalRefund'
+
+task('deployment-registry', 'Checks the deterministic address of the saved deployments and writes a registry by chainId')
+  .addParam('output', 'path of the registry', 'deployment-registry.json', types.string, true)
+  .addParam(
+    'deployments',
+    'folder with the saved deployments, defaults to the deployments path of the config',
+    undefined,
+    types.string,
+    true,
+  )
+  .addParam('salt', 'salt of the deterministic deployment', undefined, types.string, true)
+  .addParam('factory', 'address of the deterministic deployment factory', undefined, types.string, true)
+  .addParam('skipcompile', 'should not compile before computing the address', false, types.boolean, true)
+  .setAction(async (taskArgs, hre) => {
+    if (!taskArgs.skipcompile) {
+      await hre.run('compile')
+    }
+    const { bytecode } = await hre.artifacts.readArtifact(CONTRACT_NAME)
+    const expectedAddress = calculateDeterministicAddress(bytecode, taskArgs.salt, taskArgs.factory)
+    const bytecodeHash = hre.ethers.utils.keccak256(bytecode)
+    console.log(`Expected address of ${CONTRACT_NAME}: ${expectedAddress}`)
+
+    const deploymentsPath = taskArgs.deployments || hre.config.paths.deployments
+    const registry: DeploymentRegistry = {}
+    const mismatches: string[] = []
+    for (const network of Object.keys(hre.config.networks)) {
+      const deploymentFile = path.join(deploymentsPath, network, `${CONTRACT_NAME}.json`)
+      if (!existsSync(deploymentFile)) {
+        console.log(`${network}: no deployment`)
+        continue
+      }
+      const chainId = (await fs.readFile(path.join(deploymentsPath, network, '.chainId'), 'utf8')).trim()
+      const deployment = JSON.parse(await fs.readFile(deploymentFile, 'utf8'))
+      const deployedBytecodeHash = hre.ethers.utils.keccak256(deployment.bytecode)
+      if (hre.ethers.utils.getAddress(deployment.address) !== expectedAddress) {
+        const reason = deployedBytecodeHash !== bytecodeHash ? 'bytecode differs from the compiled contract' : 'different factory or salt'
+        mismatches.push(`${network} (chain ${chainId}): deployed at ${deployment.address} instead of ${expectedAddress}, ${reason}`)
+        continue
+      }
+      registry[chainId] = {
+        address: expectedAddress,
+        bytecodeHash: deployedBytecodeHash,
+        solcVersion: JSON.parse(deployment.metadata).compiler.version,
+      }
+      console.log(`${network} (chain ${chainId}): ${deployment.address}`)
+    }
+    if (mismatches.length > 0) throw Error(`Deployments do not match the deterministic address:\n${mismatches.join('\n')}`)
+    await writeRegistry(taskArgs.output, registry)
+    console.log(`Wrote ${Object.keys(registry).length} deployments to ${taskArgs.output}`)
+  })
+
+export {}
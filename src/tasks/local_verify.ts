@@ -1,42 +1,66 @@
+import { promises as fs } from 'fs'
 import 'hardhat-deploy'
 import '@nomiclabs/hardhat-ethers'
-import { task } from 'hardhat/config'
-import { loadSolc } from '../utils/solc'
+import { task, types } from 'hardhat/config'
+import { getSolcCacheDir, loadSolc } from '../utils/solc'
+import { VerificationResult, compareBytecode } from '../utils/verify'
 
-task('local-verify', 'Verifies that the local deployment files correspond to the on chain code').setAction(async (_, hre) => {
-  const allowedSourceKey = ['keccak256', 'content']
-  const deployedContracts = await hre.deployments.all()
-  for (const contract of Object.keys(deployedContracts)) {
-    const deployment = await hre.deployments.get(contract)
-    const meta = JSON.parse(deployment.metadata!!)
-    const solcjs = await loadSolc(meta.compiler.version)
-    delete meta.compiler
-    delete meta.output
-    delete meta.version
-    const sources = Object.values<any>(meta.sources)
-    for (const source of sources) {
-      for (const key of Object.keys(source)) {
-        if (allowedSourceKey.indexOf(key) < 0) delete source[key]
+interface VerificationReportEntry extends VerificationResult {
+  deployment: string
+  contract: string
+  address: string
+  onChainBytecodeHash: string
+  localBytecodeHash: string
+}
+
+task('local-verify', 'Verifies that the local deployment files correspond to the on chain code')
+  .addParam('report', 'path of a JSON report of the verification', undefined, types.string, true)
+  .addParam('solccache', 'directory with cached solc compilers', undefined, types.string, true)
+  .setAction(async (taskArgs, hre) => {
+    const allowedSourceKey = ['keccak256', 'content']
+    const report: VerificationReportEntry[] = []
+    const deployedContracts = await hre.deployments.all()
+    for (const contract of Object.keys(deployedContracts)) {
+      const deployment = await hre.deployments.get(contract)
+      const meta = JSON.parse(deployment.metadata!!)
+      const solcjs = await loadSolc(meta.compiler.version, taskArgs.solccache || getSolcCacheDir(hre.config.paths.root))
+      delete meta.compiler
+      delete meta.output
+      delete meta.version
+      const sources = Object.values<any>(meta.sources)
+      for (const source of sources) {
+        for (const key of Object.keys(source)) {
+          if (allowedSourceKey.indexOf(key) < 0) delete source[key]
+        }
+      }
+      meta.settings.outputSelection = {}
+      const targets = Object.entries(meta.settings.compilationTarget)
+      for (const [key, value] of targets) {
+        meta.settings.outputSelection[key] = {}
+        meta.settings.outputSelection[key][value as string] = ['evm.bytecode', 'evm.deployedBytecode', 'metadata']
+      }
+      delete meta.settings.compilationTarget
+      const compiled = solcjs.compile(JSON.stringify(meta))
+      const output = JSON.parse(compiled)
+      for (const [key, value] of targets) {
+        const compiledContract = output.contracts[key][value as string]
+        const onChainCode = await hre.ethers.provider.getCode(deployment.address)
+        const localCode = `0x${compiledContract.evm.deployedBytecode.object}`
+        const result = compareBytecode(onChainCode, localCode, compiledContract.evm.deployedBytecode.immutableReferences)
+        console.log(`Verification status for ${value}: ${result.status}${result.reason ? ` (${result.reason})` : ''}`)
+        report.push({
+          deployment: contract,
+          contract: value as string,
+          address: deployment.address,
+          ...result,
+          onChainBytecodeHash: hre.ethers.utils.keccak256(onChainCode),
+          localBytecodeHash: hre.ethers.utils.keccak256(localCode),
+        })
       }
     }
-    meta.settings.outputSelection = {}
-    const targets = Object.entries(meta.settings.compilationTarget)
-    for (const [key, value] of targets) {
-      meta.settings.outputSelection[key] = {}
-      meta.settings.outputSelection[key][value as string] = ['evm.bytecode', 'evm.deployedBytecode', 'metadata']
-    }
-    delete meta.settings.compilationTarget
-    const compiled = solcjs.compile(JSON.stringify(meta))
-    const output = JSON.parse(compiled)
-    for (const [key, value] of targets) {
-      const compiledContract = output.contracts[key][value as string]
-      const onChainCode = await hre.ethers.provider.getCode(deployment.address)
-      const onchainBytecodeHash = hre.ethers.utils.keccak256(onChainCode)
-      const localBytecodeHash = hre.ethers.utils.keccak256(`0x${compiledContract.evm.deployedBytecode.object}`)
-      const verifySuccess = onchainBytecodeHash === localBytecodeHash ? 'SUCCESS' : 'FAILURE'
-      console.log(`Verification status for ${value}: ${verifySuccess}`)
-    }
-  }
-})
+    if (taskArgs.report) await fs.writeFile(taskArgs.report, JSON.stringify(report, null, 2))
+    const failures = report.filter((entry) => entry.status === 'FAILURE')
+    if (failures.length > 0) throw Error(`Verification failed for ${failures.map((entry) => entry.contract).join(', ')}`)
+  })
 
 export {}
@@ -0,0 +1,148 @@
+import { existsSync } from 'fs'
+import 'hardhat-deploy'
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { TransactionQueueClient } from '../utils/client'
+import { addEnvelopeSignature, createEnvelope, readEnvelope, setEnvelopeRefund, verifyEnvelopeHash, writeEnvelope } from '../utils/envelope'
+import {
+  checkInstallEnvelope,
+  createInstallEnvelope,
+  executeInstallEnvelope,
+  getMissingInstallSignatures,
+  hasInstallSignature,
+  readInstallConfig,
+  readInstallEnvelope,
+  signInstallEnvelope,
+  verifyInstallation,
+  writeInstallEnvelope,
+} from '../utils/install'
+
+const getClient = async (hre: HardhatRuntimeEnvironment, signerAddress?: string) => {
+  const signer = signerAddress ? await hre.ethers.getSigner(signerAddress) : (await hre.ethers.getSigners())[0]
+  const deployment = await hre.deployments.get('SafeTransactionQueueConditionalRefund')
+  return { signer, client: await TransactionQueueClient.connect(deployment.address, signer) }
+}
+
+task('queue:propose', 'Writes an envelope for a queue transaction that can be signed by the owners')
+  .addParam('safe', 'address of the Safe', undefined, types.string)
+  .addParam('to', 'target of the transaction', undefined, types.string)
+  .addParam('value', 'value of the transaction in wei', '0', types.string, true)
+  .addParam('data', 'data of the transaction', '0x', types.string, true)
+  .addParam('operation', 'operation of the transaction (0 = call, 1 = delegatecall)', 0, types.int, true)
+  .addParam('nonce', 'nonce of the transaction, defaults to the current queue nonce of the Safe', undefined, types.string, true)
+  .addParam('file', 'path of the envelope', 'queue-tx.json', types.string, true)
+  .setAction(async (taskArgs, hre) => {
+    const { client } = await getClient(hre)
+    const safeTx = await client.propose(taskArgs.safe, taskArgs.to, taskArgs.value, taskArgs.data, taskArgs.operation, taskArgs.nonce)
+    const envelope = createEnvelope(client, safeTx)
+    await writeEnvelope(taskArgs.file, envelope)
+    console.log(`Proposed ${envelope.safeTxHash} with nonce ${safeTx.nonce} in ${taskArgs.file}`)
+  })
+
+task('queue:cancel', 'Writes an envelope for a transaction without effect that cancels the transactions signed for a nonce')
+  .addParam('safe', 'address of the Safe', undefined, types.string)
+  .addParam('nonce', 'nonce to cancel, defaults to the current queue nonce of the Safe', undefined, types.string, true)
+  .addParam('file', 'path of the envelope', 'queue-tx.json', types.string, true)
+  .setAction(async (taskArgs, hre) => {
+    const { client } = await getClient(hre)
+    const safeTx = await client.buildCancellationTransaction(taskArgs.safe, taskArgs.nonce)
+    const envelope = createEnvelope(client, safeTx)
+    await writeEnvelope(taskArgs.file, envelope)
+    console.log(`Proposed cancellation ${envelope.safeTxHash} of nonce ${safeTx.nonce} in ${taskArgs.file}`)
+  })
+
+task('queue:sign', 'Adds a signature of an owner to the envelope')
+  .addParam('file', 'path of the envelope', 'queue-tx.json', types.string, true)
+  .addParam('signer', 'address of the signing account, defaults to the first account', undefined, types.string, true)
+  .addParam('signature', 'signature created with eth_signTypedData_v4 to import instead of signing', undefined, types.string, true)
+  .setAction(async (taskArgs, hre) => {
+    const { signer, client } = await getClient(hre, taskArgs.signer)
+    const envelope = await readEnvelope(client, taskArgs.file)
+    const signature = taskArgs.signature
+      ? { signer: signer.address, data: taskArgs.signature }
+      : await client.signTransaction(signer, envelope.safeTx)
+    await addEnvelopeSignature(client, envelope, signature)
+    await writeEnvelope(taskArgs.file, envelope)
+    console.log(
+      `Added signature of ${signer.address} for ${client.getTransactionHash(envelope.safeTx)} (${envelope.signatures.length} signatures)`,
+    )
+  })
+
+task('queue:sign-refund', 'Adds refund params and the refund signature of an owner to the envelope')
+  .addParam('file', 'path of the envelope', 'queue-tx.json', types.string, true)
+  .addParam('signer', 'address of the signing account, defaults to the first account', undefined, types.string, true)
+  .addParam('gastoken', 'token used for the refund, zero address for the native token', undefined, types.string, true)
+  .addParam('gaslimit', 'maximum gas that is refunded', undefined, types.string, true)
+  .addParam('maxfeepergas', 'maximum fee per gas that is refunded', undefined, types.string, true)
+  .addParam('refundreceiver', 'receiver of the refund, zero address for the relayer', undefined, types.string, true)
+  .addParam('validuntil', 'timestamp after which the refund params expire, 0 if they do not expire', '0', types.string, true)
+  .setAction(async (taskArgs, hre) => {
+    const { signer, client } = await getClient(hre, taskArgs.signer)
+    const envelope = await readEnvelope(client, taskArgs.file)
+    const { gastoken, gaslimit, maxfeepergas, refundreceiver, validuntil } = taskArgs
+    let refundParams = envelope.refundParams
+    if (gastoken || gaslimit || maxfeepergas || refundreceiver) {
+      if (!gastoken || !gaslimit || !maxfeepergas || !refundreceiver) {
+        throw Error('gastoken, gaslimit, maxfeepergas and refundreceiver are required to set refund params')
+      }
+      refundParams = client.buildRefundParams(envelope.safeTx, gastoken, gaslimit, maxfeepergas, refundreceiver, validuntil)
+    }
+    if (!refundParams) throw Error(`Envelope ${taskArgs.file} has no refund params`)
+    setEnvelopeRefund(client, envelope, refundParams, await client.signRefundParams(signer, refundParams))
+    await writeEnvelope(taskArgs.file, envelope)
+    console.log(`Added refund signature of ${signer.address} for ${envelope.safeTxHash}`)
+  })
+
+task('queue:exec', 'Executes the transaction of the envelope, with refund if the envelope contains refund params')
+  .addParam('file', 'path of the envelope', 'queue-tx.json', types.string, true)
+  .addParam('gaslimit', 'gas limit of the execution', undefined, types.int, true)
+  .setAction(async (taskArgs, hre) => {
+    const { client } = await getClient(hre)
+    const envelope = await readEnvelope(client, taskArgs.file)
+    await verifyEnvelopeHash(client, envelope)
+    const overrides = taskArgs.gaslimit ? { gasLimit: taskArgs.gaslimit } : {}
+    const { safeTxHash, payment, receipt } =
+      envelope.refundParams && envelope.refundSignature
+        ? await client.executeWithRefund(envelope.safeTx, envelope.signatures, envelope.refundParams, envelope.refundSignature, overrides)
+        : await client.execute(envelope.safeTx, envelope.signatures, overrides)
+    console.log(`Executed ${safeTxHash} in ${receipt.transactionHash} with a refund of ${payment}`)
+  })
+
+task('queue:install', 'Enables the queue as module of a Safe and sets the refund conditions of a config file')
+  .addParam('safe', 'address of the Safe', undefined, types.string)
+  .addParam('conditions', 'path of the JSON config with the refund conditions per gas token', undefined, types.string)
+  .addParam('file', 'path of the install envelope, signatures are added if it exists', 'queue-install.json', types.string, true)
+  .addParam('signers', 'comma separated owners that sign, defaults to the first account', undefined, types.string, true)
+  .addParam('multisend', 'address of MultiSendCallOnly used to batch the calls', undefined, types.string, true)
+  .setAction(async (taskArgs, hre) => {
+    const { client } = await getClient(hre)
+    const config = await readInstallConfig(taskArgs.conditions)
+    const envelope = existsSync(taskArgs.file)
+      ? await readInstallEnvelope(client, taskArgs.file)
+      : await createInstallEnvelope(client, taskArgs.safe, config, taskArgs.multisend)
+    checkInstallEnvelope(envelope, taskArgs.safe, config)
+    const signers = taskArgs.signers ? taskArgs.signers.split(',') : [undefined]
+    for (const signerAddress of signers) {
+      const { signer } = await getClient(hre, signerAddress)
+      if (hasInstallSignature(envelope, signer.address)) {
+        console.log(`${signer.address} already signed ${envelope.safeTxHash}`)
+        continue
+      }
+      await signInstallEnvelope(envelope, signer)
+      console.log(`Added signature of ${signer.address} for ${envelope.safeTxHash}`)
+    }
+    const missing = await getMissingInstallSignatures(client, envelope)
+    if (missing > 0) {
+      await writeInstallEnvelope(taskArgs.file, envelope)
+      console.log(`Wrote ${taskArgs.file}, ${missing} more signatures are required`)
+      return
+    }
+    const receipt = await executeInstallEnvelope(client, envelope)
+    console.log(`Executed ${envelope.safeTxHash} in ${receipt.transactionHash}`)
+    const problems = await verifyInstallation(client, envelope.safe, envelope.config)
+    if (problems.length > 0) throw Error(`Installation does not match the config:\n${problems.join('\n')}`)
+    console.log(`Verified installation of ${client.address} on ${envelope.safe}`)
+  })
+
+export {}
@@ -0,0 +1,42 @@
+import 'hardhat-deploy'
+import '@nomiclabs/hardhat-ethers'
+import { AddressZero } from '@ethersproject/constants'
+import { task, types } from 'hardhat/config'
+import { createRelayerServer } from '../relayer/server'
+import { RelayerService } from '../relayer/service'
+import { TransactionQueueClient } from '../utils/client'
+import { GasTokenPricer, OraclePriceSource } from '../utils/pricing'
+
+task('relayer', 'Starts a relayer service that submits signed queue transactions with refund')
+  .addParam('port', 'port of the relayer http server', 3000, types.int, true)
+  .addParam('gastokens', 'comma separated list of accepted gas tokens', AddressZero, types.string, true)
+  .addParam(
+    'pricefeeds',
+    'comma separated <gas token>=<TOKEN/ETH price feed> pairs, required for gas tokens other than the native token',
+    '',
+    types.string,
+    true,
+  )
+  .addParam('maxpriceage', 'maximum age of the price feed answers in seconds', undefined, types.int, true)
+  .setAction(async (taskArgs, hre) => {
+    const [relayer] = await hre.ethers.getSigners()
+    const deployment = await hre.deployments.get('SafeTransactionQueueConditionalRefund')
+    const client = await TransactionQueueClient.connect(deployment.address, relayer)
+    const feeds: Record<string, string> = {}
+    for (const pair of taskArgs.pricefeeds.split(',').filter((pair: string) => pair)) {
+      const [gasToken, feed] = pair.split('=')
+      feeds[gasToken] = feed
+    }
+    const gasTokens: string[] = taskArgs.gastokens.split(',')
+    const tokenWithoutFeed = gasTokens.find((gasToken) => gasToken !== AddressZero && !feeds[gasToken])
+    if (tokenWithoutFeed) throw Error(`No price feed for gas token ${tokenWithoutFeed}`)
+    const pricer = new GasTokenPricer(relayer.provider!!, new OraclePriceSource(relayer.provider!!, feeds, taskArgs.maxpriceage))
+    const service = new RelayerService(client, { gasTokens, pricer })
+    const server = createRelayerServer(service)
+
+    await new Promise<void>((resolve) => server.listen(taskArgs.port, resolve))
+    console.log(`Relayer ${relayer.address} listening on port ${taskArgs.port} for queue ${deployment.address}`)
+    await new Promise((resolve) => server.on('close', resolve))
+  })
+
+export {}
@@ -1,20 +1,90 @@
+import { existsSync, promises as fs } from 'fs'
 import 'hardhat-deploy'
 import '@nomiclabs/hardhat-ethers'
-import { task, types } from 'hardhat/config'
-import { loadSolc } from '../utils/solc'
+import { extendConfig, task, types } from 'hardhat/config'
+import { getSolcCacheDir, loadSolc } from '../utils/solc'
 
-task('codesize', 'Displays the codesize of the contracts')
+// EIP-170 limits the deployed code, EIP-3860 the init code of contract creations
+const MAX_DEPLOYED_CODE_SIZE = 24576
+const MAX_INIT_CODE_SIZE = 49152
+
+interface CodeSize {
+  deployed: number
+  init: number
+}
+
+type CodeSizeBaseline = Record<string, CodeSize>
+
+declare module 'hardhat/types/config' {
+  interface HardhatUserConfig {
+    codesize?: { budgets?: Record<string, number> }
+  }
+
+  interface HardhatConfig {
+    // Maximum deployed code size per contract name
+    codesize: { budgets: Record<string, number> }
+  }
+}
+
+extendConfig((config, userConfig) => {
+  config.codesize = { budgets: { ...userConfig.codesize?.budgets } }
+})
+
+const byteLength = (code: string): number => Math.max(0, (code.length - 2) / 2)
+
+const formatDelta = (size: number, baseline?: number): string => {
+  if (baseline === undefined) return ''
+  const delta = size - baseline
+  return ` (${delta > 0 ? '+' : ''}${delta})`
+}
+
+// Limits only apply to the contracts of this repository, dependencies and test contracts are only deployed on test networks
+const isCheckedContract = (sourceName: string): boolean => sourceName.startsWith('contracts/') && !sourceName.startsWith('contracts/test/')
+
+task('codesize', 'Displays the codesize of the contracts and fails if a contract exceeds the size limits or its budget')
   .addParam('skipcompile', 'should not compile before printing size', false, types.boolean, true)
   .addParam('contractname', 'name of the contract', undefined, types.string, true)
+  .addParam('baseline', 'path of a JSON baseline of the sizes, the changes to it are displayed', undefined, types.string, true)
+  .addParam('savebaseline', 'should write the current sizes to the baseline', false, types.boolean, true)
   .setAction(async (taskArgs, hre) => {
     if (!taskArgs.skipcompile) {
       await hre.run('compile')
     }
+    const baseline: CodeSizeBaseline =
+      taskArgs.baseline && !taskArgs.savebaseline && existsSync(taskArgs.baseline)
+        ? JSON.parse(await fs.readFile(taskArgs.baseline, 'utf8'))
+        : {}
+    const sizes: CodeSizeBaseline = {}
+    const violations: string[] = []
     const contracts = await hre.artifacts.getAllFullyQualifiedNames()
     for (const contract of contracts) {
       const artifact = await hre.artifacts.readArtifact(contract)
       if (taskArgs.contractname && taskArgs.contractname !== artifact.contractName) continue
-      console.log(artifact.contractName, Math.max(0, (artifact.deployedBytecode.length - 2) / 2), 'bytes (limit is 24576)')
+      const size = { deployed: byteLength(artifact.deployedBytecode), init: byteLength(artifact.bytecode) }
+      sizes[contract] = size
+      const previous = baseline[contract]
+      console.log(
+        `${artifact.contractName} ${size.deployed}${formatDelta(size.deployed, previous?.deployed)} bytes deployed, ` +
+          `${size.init}${formatDelta(size.init, previous?.init)} bytes init code`,
+      )
+      if (!isCheckedContract(artifact.sourceName)) continue
+      if (size.deployed > MAX_DEPLOYED_CODE_SIZE) {
+        violations.push(
+          `${artifact.contractName} exceeds the deployed code size limit of EIP-170 (${size.deployed} > ${MAX_DEPLOYED_CODE_SIZE})`,
+        )
+      }
+      if (size.init > MAX_INIT_CODE_SIZE) {
+        violations.push(`${artifact.contractName} exceeds the init code size limit of EIP-3860 (${size.init} > ${MAX_INIT_CODE_SIZE})`)
+      }
+      const budget = hre.config.codesize.budgets[artifact.contractName]
+      if (budget !== undefined && size.deployed > budget) {
+        violations.push(`${artifact.contractName} exceeds its budget of ${budget} bytes (${size.deployed} bytes deployed)`)
+      }
+    }
+    if (violations.length > 0) throw Error(`Code size limits exceeded:\n${violations.join('\n')}`)
+    if (taskArgs.baseline && taskArgs.savebaseline) {
+      await fs.writeFile(taskArgs.baseline, JSON.stringify(sizes, null, 2))
+      console.log(`Wrote baseline to ${taskArgs.baseline}`)
     }
   })
 
@@ -28,7 +98,7 @@ task('yulcode', 'Outputs yul code for contracts')
       if (!buildInfo) return
       console.log({ buildInfo })
       buildInfo.input.settings.outputSelection['*']['*'].push('ir', 'evm.assembly')
-      const solcjs = await loadSolc(buildInfo.solcLongVersion)
+      const solcjs = await loadSolc(buildInfo.solcLongVersion, getSolcCacheDir(hre.config.paths.root))
       const compiled = solcjs.compile(JSON.stringify(buildInfo.input))
       const output = JSON.parse(compiled)
       console.log(output.contracts[contract.split(':')[0]])
@@ -0,0 +1,65 @@
+const SAFE_TX_TUPLE = 'tuple(address safe, address to, uint256 value, bytes data, uint8 operation)'
+const REFUND_PARAMS_TUPLE = 'tuple(address gasToken, uint120 gasLimit, uint120 maxFeePerGas, address refundReceiver, uint64 validUntil)'
+
+const TRANSACTION_QUEUE_ABI = [
+  'error ExecutionFailure()',
+  'error InvalidRefundReceiver()',
+  'error RefundGasBoundariesNotMet()',
+  'error RefundFailure()',
+  'error NotEnoughGas()',
+  'error RefundParamsExpired()',
+  'error InvalidNonce()',
+  'error InvalidEffectiveGasPriceRefund()',
+  'event SuccessfulExecution(bytes32 txHash, uint256 payment)',
+  'event RefundConditionsChanged(address indexed safe, address indexed tokenAddress, uint120 maxFeePerGas, uint120 maxGasLimit, address[] refundReceiverAllowlist)',
+  'event EffectiveGasPriceRefundChanged(address indexed safe, address indexed tokenAddress, bool enabled)',
+  'event RefundGasOverheadChanged(address indexed safe, address indexed tokenAddress, uint32 refundGasOverhead)',
+  'event NoncesInvalidated(address indexed safe, uint256 previousNonce, uint256 nonce)',
+  'event GuardChecksChanged(address indexed safe, bool enabled)',
+  'function domainSeparator() view returns (bytes32)',
+  'function safeNonces(address) view returns (uint256)',
+  'function safeRefundConditions(address, address) view returns (uint120 maxFeePerGas, uint120 maxGasLimit, uint16 allowedRefundReceiversCount, bool refundEffectiveGasPrice, uint32 refundGasOverhead)',
+  'function setEffectiveGasPriceRefund(address tokenAddress, bool enabled)',
+  'function setRefundGasOverhead(address tokenAddress, uint32 refundGasOverhead)',
+  'function getRefundReceivers(address safe, address tokenAddress) view returns (address[])',
+  'function invalidateNonces(uint256 nonce)',
+  'function safeGuardChecks(address) view returns (bool)',
+  'function setGuardChecks(bool enabled)',
+  'function getActiveGuard(address safe) view returns (address guard)',
+  'function setRefundConditions(address tokenAddress, uint120 maxFeePerGas, uint120 maxGasLimit, address[] refundReceiverAllowlist)',
+  `function execTransaction(${SAFE_TX_TUPLE} safeTx, bytes signatures) payable returns (bool success)`,
+  `function execTransactionWithRefund(${SAFE_TX_TUPLE} safeTx, bytes txSignatures, ${REFUND_PARAMS_TUPLE} refundParams, bytes refundSignature) payable`,
+  'function encodeTransactionData(address safe, address to, uint256 value, bytes data, uint8 operation, uint256 nonce) view returns (bytes)',
+  'function getTransactionHash(address safe, address to, uint256 value, bytes data, uint8 operation, uint256 nonce) view returns (bytes32)',
+  'function encodeRefundParamsData(bytes32 safeTxHash, address gasToken, uint120 gasLimit, uint120 maxFeePerGas, address refundReceiver, uint64 validUntil) view returns (bytes)',
+  'function getRefundParamsHash(bytes32 safeTxHash, address gasToken, uint120 gasLimit, uint120 maxFeePerGas, address refundReceiver, uint64 validUntil) view returns (bytes32)',
+  'function isAllowedRefundReceiver(address safe, address gasToken, address refundReceiver) view returns (bool)',
+]
+
+const SAFE_ABI = [
+  'function isOwner(address owner) view returns (bool)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function approvedHashes(address owner, bytes32 hash) view returns (uint256)',
+  'function getStorageAt(uint256 offset, uint256 length) view returns (bytes)',
+  'function nonce() view returns (uint256)',
+  'function isModuleEnabled(address module) view returns (bool)',
+  'function enableModule(address module)',
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+]
+
+// Legacy EIP-1271 interface that the Safe calls for contract signatures, with the preimage of the hash as data
+const SIGNATURE_VALIDATOR_ABI = ['function isValidSignature(bytes data, bytes signature) view returns (bytes4)']
+
+const ERC20_ABI = ['function balanceOf(address owner) view returns (uint256)', 'function decimals() view returns (uint8)']
+
+// Chainlink AggregatorV3Interface
+const PRICE_FEED_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+]
+
+const MULTI_SEND_ABI = ['function multiSend(bytes transactions) payable']
+
+export { TRANSACTION_QUEUE_ABI, SAFE_ABI, SIGNATURE_VALIDATOR_ABI, ERC20_ABI, PRICE_FEED_ABI, MULTI_SEND_ABI }
@@ -0,0 +1,58 @@
+import { BigNumberish, utils } from 'ethers'
+import { TransactionQueueClient } from './client'
+import { SafeTransaction } from './execution'
+
+interface AllowlistDiff {
+  // Addresses that are allowed after the update but not on chain
+  added: string[]
+  // Addresses that are allowed on chain but not after the update
+  removed: string[]
+  unchanged: string[]
+}
+
+interface AllowlistUpdate {
+  diff: AllowlistDiff
+  // Undefined if the on chain conditions already match
+  safeTx?: SafeTransaction
+}
+
+// Addresses are compared checksummed, duplicates are ignored like in `setRefundConditions`
+const diffAllowlist = (desired: string[], onChain: string[]): AllowlistDiff => {
+  const desiredSet = new Set(desired.map((address) => utils.getAddress(address)))
+  const onChainSet = new Set(onChain.map((address) => utils.getAddress(address)))
+  return {
+    added: Array.from(desiredSet).filter((address) => !onChainSet.has(address)),
+    removed: Array.from(onChainSet).filter((address) => !desiredSet.has(address)),
+    unchanged: Array.from(desiredSet).filter((address) => onChainSet.has(address)),
+  }
+}
+
+const isAllowlistUnchanged = (diff: AllowlistDiff): boolean => diff.added.length === 0 && diff.removed.length === 0
+
+// Compares the desired conditions with the on chain conditions of the Safe and proposes a `setRefundConditions` transaction if they differ.
+// `setRefundConditions` replaces the whole allowlist, so the transaction always contains the complete desired allowlist.
+const buildAllowlistUpdate = async (
+  client: TransactionQueueClient,
+  safe: string,
+  gasToken: string,
+  maxFeePerGas: BigNumberish,
+  maxGasLimit: BigNumberish,
+  refundReceiverAllowlist: string[],
+  nonce?: BigNumberish,
+): Promise<AllowlistUpdate> => {
+  const conditions = await client.readConditions(safe, gasToken)
+  const diff = diffAllowlist(refundReceiverAllowlist, await client.getRefundReceivers(safe, gasToken))
+  if (isAllowlistUnchanged(diff) && conditions.maxFeePerGas.eq(maxFeePerGas) && conditions.maxGasLimit.eq(maxGasLimit)) {
+    return { diff }
+  }
+  const data = client.contract.interface.encodeFunctionData('setRefundConditions', [
+    gasToken,
+    maxFeePerGas,
+    maxGasLimit,
+    [...diff.unchanged, ...diff.added],
+  ])
+  const safeTx = await client.propose(safe, client.address, 0, data, 0, nonce)
+  return { diff, safeTx }
+}
+
+export { AllowlistDiff, AllowlistUpdate, diffAllowlist, isAllowlistUnchanged, buildAllowlistUpdate }
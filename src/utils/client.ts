@@ -0,0 +1,219 @@
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, BigNumberish, Contract, ContractReceipt, PayableOverrides, Signer, providers, utils } from 'ethers'
+import { SAFE_ABI, TRANSACTION_QUEUE_ABI } from './abi'
+import {
+  QueueSigner,
+  RefundParams,
+  SafeSignature,
+  SafeTransaction,
+  TypedDataPayload,
+  buildRefundParams,
+  buildRefundParamsTypedData,
+  buildSafeTransaction,
+  buildSafeTransactionTypedData,
+  calculateRefundParamsHash,
+  calculateSafeTransactionHash,
+  executeTx,
+  executeTxWithRefund,
+  importSignature,
+  queueSignTypedData,
+  signRefundParamsTypedData,
+} from './execution'
+import { DeploymentRegistry, getRegistryEntry } from './registry'
+
+// keccak256("guard_manager.guard.address"), storage slot of the guard in the GuardManager of the Safe
+const GUARD_STORAGE_SLOT = '0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8'
+
+interface RefundCondition {
+  maxFeePerGas: BigNumber
+  maxGasLimit: BigNumber
+  allowedRefundReceiversCount: number
+  // Refunds are paid at min(maxFeePerGas, tx.gasprice)
+  refundEffectiveGasPrice: boolean
+  // Gas refunded for the refund logic, 0 if the contract uses the default overhead of the gas token
+  refundGasOverhead: number
+}
+
+interface ExecutionResult {
+  safeTxHash: string
+  payment: BigNumber
+  receipt: ContractReceipt
+}
+
+class TransactionQueueClient {
+  readonly address: string
+  readonly contract: Contract
+
+  constructor(address: string, readonly chainId: BigNumberish, signerOrProvider: Signer | providers.Provider) {
+    // Checksummed like the addresses of receipt logs
+    this.address = utils.getAddress(address)
+    this.contract = new Contract(this.address, TRANSACTION_QUEUE_ABI, signerOrProvider)
+  }
+
+  static async connect(address: string, signerOrProvider: Signer | providers.Provider): Promise<TransactionQueueClient> {
+    const provider = Signer.isSigner(signerOrProvider) ? signerOrProvider.provider : signerOrProvider
+    if (!provider) throw Error('Provider required to retrieve chainId')
+    const { chainId } = await provider.getNetwork()
+    return new TransactionQueueClient(address, chainId, signerOrProvider)
+  }
+
+  // Uses the address of the queue that the registry lists for the chain of the provider
+  static async connectWithRegistry(
+    registry: DeploymentRegistry,
+    signerOrProvider: Signer | providers.Provider,
+  ): Promise<TransactionQueueClient> {
+    const provider = Signer.isSigner(signerOrProvider) ? signerOrProvider.provider : signerOrProvider
+    if (!provider) throw Error('Provider required to retrieve chainId')
+    const { chainId } = await provider.getNetwork()
+    return new TransactionQueueClient(getRegistryEntry(registry, chainId).address, chainId, signerOrProvider)
+  }
+
+  async getNonce(safe: string): Promise<BigNumber> {
+    return this.contract.safeNonces(safe)
+  }
+
+  async propose(
+    safe: string,
+    to: string,
+    value: BigNumberish,
+    data: string,
+    operation: number,
+    nonce?: BigNumberish,
+  ): Promise<SafeTransaction> {
+    const txNonce = nonce === undefined ? await this.getNonce(safe) : BigNumber.from(nonce)
+    return buildSafeTransaction(safe, to, value, data, operation, txNonce.toString())
+  }
+
+  async proposeContractCall(
+    safe: string,
+    contract: Contract,
+    method: string,
+    params: any[],
+    transactionParams: Partial<Omit<SafeTransaction, 'safe' | 'data' | 'to'>> = {},
+  ): Promise<SafeTransaction> {
+    const data = contract.interface.encodeFunctionData(method, params)
+    return this.propose(
+      safe,
+      contract.address,
+      transactionParams.value || 0,
+      data,
+      transactionParams.operation || 0,
+      transactionParams.nonce,
+    )
+  }
+
+  // Transaction without effect (call to the Safe itself without value and data), executing it retires the signed transactions of its nonce
+  async buildCancellationTransaction(safe: string, nonce?: BigNumberish): Promise<SafeTransaction> {
+    return this.propose(safe, safe, 0, '0x', 0, nonce)
+  }
+
+  // Transaction that sets the queue nonce of the Safe to `newNonce`, retiring every signed transaction below it
+  async buildNonceInvalidationTransaction(safe: string, newNonce: BigNumberish, nonce?: BigNumberish): Promise<SafeTransaction> {
+    const data = this.contract.interface.encodeFunctionData('invalidateNonces', [newNonce])
+    return this.propose(safe, this.address, 0, data, 0, nonce)
+  }
+
+  getTransactionHash(safeTx: SafeTransaction): string {
+    return calculateSafeTransactionHash(this.contract, safeTx, this.chainId)
+  }
+
+  getRefundParamsHash(refundParams: RefundParams): string {
+    return calculateRefundParamsHash(this.contract, refundParams, this.chainId)
+  }
+
+  buildRefundParams(
+    safeTx: SafeTransaction,
+    gasToken: string,
+    gasLimit: BigNumberish,
+    maxFeePerGas: BigNumberish,
+    refundReceiver: string,
+    validUntil: BigNumberish = 0,
+  ): RefundParams {
+    return buildRefundParams(
+      this.getTransactionHash(safeTx),
+      gasToken,
+      BigNumber.from(gasLimit),
+      BigNumber.from(maxFeePerGas),
+      refundReceiver,
+      BigNumber.from(validUntil),
+    )
+  }
+
+  async signTransaction(signer: QueueSigner, safeTx: SafeTransaction): Promise<SafeSignature> {
+    return queueSignTypedData(signer, this.contract, safeTx, this.chainId)
+  }
+
+  async signRefundParams(signer: QueueSigner, refundParams: RefundParams): Promise<SafeSignature> {
+    return signRefundParamsTypedData(signer, this.contract, refundParams, this.chainId)
+  }
+
+  getTransactionTypedData(safeTx: SafeTransaction): TypedDataPayload {
+    return buildSafeTransactionTypedData(this.contract, safeTx, this.chainId)
+  }
+
+  getRefundParamsTypedData(refundParams: RefundParams): TypedDataPayload {
+    return buildRefundParamsTypedData(this.contract, refundParams, this.chainId)
+  }
+
+  importTransactionSignature(safeTx: SafeTransaction, signer: string, data: string): SafeSignature {
+    return importSignature(this.getTransactionHash(safeTx), signer, data)
+  }
+
+  importRefundSignature(refundParams: RefundParams, signer: string, data: string): SafeSignature {
+    return importSignature(this.getRefundParamsHash(refundParams), signer, data)
+  }
+
+  async readConditions(safe: string, gasToken: string): Promise<RefundCondition> {
+    const conditions = await this.contract.safeRefundConditions(safe, gasToken)
+    const { maxFeePerGas, maxGasLimit, allowedRefundReceiversCount, refundEffectiveGasPrice, refundGasOverhead } = conditions
+    return { maxFeePerGas, maxGasLimit, allowedRefundReceiversCount, refundEffectiveGasPrice, refundGasOverhead }
+  }
+
+  // Empty if every refund receiver is allowed
+  async getRefundReceivers(safe: string, gasToken: string): Promise<string[]> {
+    return this.contract.getRefundReceivers(safe, gasToken)
+  }
+
+  // Guard configured in the Safe, the zero address if the Safe has no guard
+  async getGuard(safe: string): Promise<string> {
+    const storage = await new Contract(safe, SAFE_ABI, this.contract.provider).getStorageAt(GUARD_STORAGE_SLOT, 1)
+    return utils.getAddress(utils.hexDataSlice(storage, 12))
+  }
+
+  async hasGuard(safe: string): Promise<boolean> {
+    return (await this.getGuard(safe)) !== AddressZero
+  }
+
+  // The queue only calls the guard of the Safe if the Safe enabled guard checks with `setGuardChecks`
+  async isGuardCheckEnabled(safe: string): Promise<boolean> {
+    return this.contract.safeGuardChecks(safe)
+  }
+
+  async execute(safeTx: SafeTransaction, signatures: SafeSignature[], overrides?: PayableOverrides): Promise<ExecutionResult> {
+    const tx = await executeTx(this.contract, safeTx, signatures, overrides)
+    return this.parseExecution(await tx.wait())
+  }
+
+  async executeWithRefund(
+    safeTx: SafeTransaction,
+    txSignatures: SafeSignature[],
+    refundParams: RefundParams,
+    refundSignature: SafeSignature,
+    overrides?: PayableOverrides,
+  ): Promise<ExecutionResult> {
+    const tx = await executeTxWithRefund(this.contract, safeTx, txSignatures, refundParams, refundSignature, overrides)
+    return this.parseExecution(await tx.wait())
+  }
+
+  private parseExecution(receipt: ContractReceipt): ExecutionResult {
+    const event = receipt.events?.find((e) => e.address === this.contract.address && e.event === 'SuccessfulExecution')
+    if (!event || !event.args) throw Error(`SuccessfulExecution event not found in transaction ${receipt.transactionHash}`)
+    return {
+      safeTxHash: event.args.txHash,
+      payment: event.args.payment,
+      receipt,
+    }
+  }
+}
+
+export { RefundCondition, ExecutionResult, TransactionQueueClient }
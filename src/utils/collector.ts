@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs'
+import { BigNumber, Contract, utils } from 'ethers'
+import { SAFE_ABI } from './abi'
+import { TransactionQueueClient } from './client'
+import { SafeSignature, SafeTransaction, buildSignatureBytes, preimageSafeTransactionHash } from './execution'
+import { checkSafeSignature } from './signatures'
+
+interface CollectedTransaction {
+  safeTx: SafeTransaction
+  signatures: SafeSignature[]
+}
+
+interface CollectionStatus {
+  safeTxHash: string
+  threshold: number
+  signers: string[]
+  missing: number
+}
+
+interface CollectionFile {
+  chainId: string
+  transactionQueue: string
+  transactions: Record<string, CollectedTransaction>
+}
+
+// Collects the signatures of the owners for queued transactions, keyed by the safeTxHash
+class SignatureCollector {
+  private readonly transactions = new Map<string, CollectedTransaction>()
+
+  constructor(readonly client: TransactionQueueClient) {}
+
+  static async load(client: TransactionQueueClient, path: string): Promise<SignatureCollector> {
+    const file: CollectionFile = JSON.parse(await fs.readFile(path, 'utf8'))
+    if (file.transactionQueue.toLowerCase() !== client.address.toLowerCase() || !BigNumber.from(file.chainId).eq(client.chainId)) {
+      throw Error(`Signatures in ${path} were collected for ${file.transactionQueue} on chain ${file.chainId}`)
+    }
+
+    const collector = new SignatureCollector(client)
+    for (const safeTxHash of Object.keys(file.transactions)) {
+      const { safeTx, signatures } = file.transactions[safeTxHash]
+      if (collector.add(safeTx) !== safeTxHash) throw Error(`Transaction in ${path} does not match its hash ${safeTxHash}`)
+      // The file could have been edited, so the signatures are checked like newly added ones
+      for (const signature of signatures) await collector.addSignature(safeTxHash, signature)
+    }
+    return collector
+  }
+
+  async save(path: string): Promise<void> {
+    const file: CollectionFile = {
+      chainId: BigNumber.from(this.client.chainId).toString(),
+      transactionQueue: this.client.address,
+      transactions: {},
+    }
+    this.transactions.forEach((collected, safeTxHash) => {
+      file.transactions[safeTxHash] = collected
+    })
+    await fs.writeFile(path, JSON.stringify(file, null, 2))
+  }
+
+  add(safeTx: SafeTransaction): string {
+    const safeTxHash = this.client.getTransactionHash(safeTx)
+    if (!this.transactions.has(safeTxHash)) {
+      this.transactions.set(safeTxHash, { safeTx: { ...safeTx, value: BigNumber.from(safeTx.value).toString() }, signatures: [] })
+    }
+    return safeTxHash
+  }
+
+  get(safeTxHash: string): CollectedTransaction {
+    const collected = this.transactions.get(safeTxHash)
+    if (!collected) throw Error(`Transaction ${safeTxHash} is not collected`)
+    return collected
+  }
+
+  async addSignature(safeTxHash: string, signature: SafeSignature): Promise<CollectionStatus> {
+    const { safeTx, signatures } = this.get(safeTxHash)
+
+    if (signatures.some((s) => s.signer.toLowerCase() === signature.signer.toLowerCase())) {
+      throw Error(`${utils.getAddress(signature.signer)} already signed ${safeTxHash}`)
+    }
+    const preimage = preimageSafeTransactionHash(this.client.contract, safeTx, this.client.chainId)
+    const problem = await checkSafeSignature(this.getSafe(safeTx.safe), safeTxHash, preimage, signature)
+    if (problem) throw Error(problem)
+
+    signatures.push({ ...signature, signer: utils.getAddress(signature.signer) })
+    return this.getStatus(safeTxHash)
+  }
+
+  async getStatus(safeTxHash: string): Promise<CollectionStatus> {
+    const { safeTx, signatures } = this.get(safeTxHash)
+    const threshold = (await this.getSafe(safeTx.safe).getThreshold()).toNumber()
+    return {
+      safeTxHash,
+      threshold,
+      signers: signatures.map((s) => s.signer),
+      missing: Math.max(threshold - signatures.length, 0),
+    }
+  }
+
+  // Packed signatures as expected by `execTransaction`, only available once the threshold of the Safe is met
+  async getSignatureBytes(safeTxHash: string): Promise<string> {
+    const { missing } = await this.getStatus(safeTxHash)
+    if (missing > 0) throw Error(`Transaction ${safeTxHash} is missing ${missing} signature(s)`)
+    return buildSignatureBytes([...this.get(safeTxHash).signatures])
+  }
+
+  private getSafe(address: string): Contract {
+    return new Contract(address, SAFE_ABI, this.client.contract.provider)
+  }
+}
+
+export { CollectedTransaction, CollectionStatus, CollectionFile, SignatureCollector }
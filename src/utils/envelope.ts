@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs'
+import { BigNumber, Contract } from 'ethers'
+import { SAFE_ABI } from './abi'
+import { TransactionQueueClient } from './client'
+import { RefundParams, SafeSignature, SafeTransaction, preimageSafeTransactionHash } from './execution'
+import { checkSafeSignature } from './signatures'
+
+// Transaction, signatures and refund params of a queued transaction, exchanged between owners as JSON file
+interface TransactionEnvelope {
+  chainId: string
+  transactionQueue: string
+  safeTxHash: string
+  safeTx: SafeTransaction
+  signatures: SafeSignature[]
+  refundParams?: RefundParams
+  refundSignature?: SafeSignature
+}
+
+const createEnvelope = (client: TransactionQueueClient, safeTx: SafeTransaction): TransactionEnvelope => ({
+  chainId: BigNumber.from(client.chainId).toString(),
+  transactionQueue: client.address,
+  safeTxHash: client.getTransactionHash(safeTx),
+  safeTx: { ...safeTx, value: BigNumber.from(safeTx.value).toString() },
+  signatures: [],
+})
+
+const readEnvelope = async (client: TransactionQueueClient, path: string): Promise<TransactionEnvelope> => {
+  const envelope: TransactionEnvelope = JSON.parse(await fs.readFile(path, 'utf8'))
+  if (envelope.transactionQueue.toLowerCase() !== client.address.toLowerCase() || !BigNumber.from(envelope.chainId).eq(client.chainId)) {
+    throw Error(`Envelope ${path} was created for ${envelope.transactionQueue} on chain ${envelope.chainId}`)
+  }
+  return envelope
+}
+
+const writeEnvelope = async (path: string, envelope: TransactionEnvelope): Promise<void> => {
+  await fs.writeFile(path, JSON.stringify(envelope, null, 2))
+}
+
+const addEnvelopeSignature = async (
+  client: TransactionQueueClient,
+  envelope: TransactionEnvelope,
+  signature: SafeSignature,
+): Promise<SafeSignature> => {
+  const imported = signature.dynamic ? signature : client.importTransactionSignature(envelope.safeTx, signature.signer, signature.data)
+  if (envelope.signatures.some((s) => s.signer.toLowerCase() === imported.signer.toLowerCase())) {
+    throw Error(`${imported.signer} already signed ${envelope.safeTxHash}`)
+  }
+  const safe = new Contract(envelope.safeTx.safe, SAFE_ABI, client.contract.provider)
+  const preimage = preimageSafeTransactionHash(client.contract, envelope.safeTx, client.chainId)
+  const problem = await checkSafeSignature(safe, client.getTransactionHash(envelope.safeTx), preimage, imported)
+  if (problem) throw Error(problem)
+  envelope.signatures.push(imported)
+  return imported
+}
+
+const setEnvelopeRefund = (
+  client: TransactionQueueClient,
+  envelope: TransactionEnvelope,
+  refundParams: RefundParams,
+  refundSignature: SafeSignature,
+): SafeSignature => {
+  if (refundParams.safeTxHash !== envelope.safeTxHash) {
+    throw Error(`Refund params are signed for ${refundParams.safeTxHash} instead of ${envelope.safeTxHash}`)
+  }
+  const imported = client.importRefundSignature(refundParams, refundSignature.signer, refundSignature.data)
+  envelope.refundParams = {
+    ...refundParams,
+    gasLimit: BigNumber.from(refundParams.gasLimit).toString(),
+    maxFeePerGas: BigNumber.from(refundParams.maxFeePerGas).toString(),
+    validUntil: BigNumber.from(refundParams.validUntil).toString(),
+  }
+  envelope.refundSignature = imported
+  return imported
+}
+
+// Compares the hash of the envelope with the hash calculated by the deployed queue
+const verifyEnvelopeHash = async (client: TransactionQueueClient, envelope: TransactionEnvelope): Promise<void> => {
+  const { safe, to, value, data, operation, nonce } = envelope.safeTx
+  const onChainHash = await client.contract.getTransactionHash(safe, to, value, data, operation, nonce)
+  if (onChainHash !== envelope.safeTxHash) {
+    throw Error(`Envelope hash ${envelope.safeTxHash} does not match on chain hash ${onChainHash}`)
+  }
+}
+
+export { TransactionEnvelope, createEnvelope, readEnvelope, writeEnvelope, addEnvelopeSignature, setEnvelopeRefund, verifyEnvelopeHash }
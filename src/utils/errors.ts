@@ -0,0 +1,171 @@
+import { utils } from 'ethers'
+import { TRANSACTION_QUEUE_ABI } from './abi'
+
+const transactionQueueInterface = new utils.Interface(TRANSACTION_QUEUE_ABI)
+
+// Error(string) and Panic(uint256) selectors used by solidity for reason strings and failed assertions
+const ERROR_STRING_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// Reason strings of the Gnosis Safe contracts, see https://github.com/gnosis/safe-contracts/blob/v1.3.0/docs/error_codes.md
+const SAFE_ERROR_CODES: Record<string, string> = {
+  GS000: 'Could not finish initialization',
+  GS001: 'Threshold needs to be defined',
+  GS010: 'Not enough gas to execute Safe transaction',
+  GS011: 'Could not pay gas costs with ether',
+  GS012: 'Could not pay gas costs with token',
+  GS013: 'Safe transaction failed when gasPrice and safeTxGas were 0',
+  GS020: 'Signatures data too short',
+  GS021: 'Invalid contract signature location: inside static part',
+  GS022: 'Invalid contract signature location: length not present',
+  GS023: 'Invalid contract signature location: data not complete',
+  GS024: 'Invalid contract signature provided',
+  GS025: 'Hash has not been approved',
+  GS026: 'Invalid owner provided',
+  GS030: 'Only owners can approve a hash',
+  GS031: 'Method can only be called from this contract',
+  GS100: 'Modules have already been initialized',
+  GS101: 'Invalid module address provided',
+  GS102: 'Module has already been added',
+  GS103: 'Invalid prevModule, module pair provided',
+  GS104: 'Method can only be called from an enabled module',
+  GS200: 'Owners have already been setup',
+  GS201: 'Threshold cannot exceed owner count',
+  GS202: 'Threshold needs to be greater than 0',
+  GS203: 'Invalid owner address provided',
+  GS204: 'Address is already an owner',
+  GS205: 'Invalid prevOwner, owner pair provided',
+  GS300: 'Guard does not implement IERC165',
+}
+
+class TransactionQueueError extends Error {
+  constructor(message: string, readonly data: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+class CustomError extends TransactionQueueError {
+  constructor(readonly errorName: string, data: string) {
+    super(`Transaction reverted with custom error '${errorName}()'`, data)
+  }
+}
+
+class ExecutionFailureError extends CustomError {}
+
+class InvalidRefundReceiverError extends CustomError {}
+
+class RefundGasBoundariesNotMetError extends CustomError {}
+
+class RefundFailureError extends CustomError {}
+
+class NotEnoughGasError extends CustomError {}
+
+class RefundParamsExpiredError extends CustomError {}
+
+class InvalidNonceError extends CustomError {}
+
+class InvalidEffectiveGasPriceRefundError extends CustomError {}
+
+class ReasonStringError extends TransactionQueueError {
+  constructor(readonly reason: string, data: string, description?: string) {
+    super(`Transaction reverted with reason string '${reason}'${description ? ` (${description})` : ''}`, data)
+  }
+}
+
+class SafeError extends ReasonStringError {
+  constructor(readonly code: string, data: string) {
+    super(code, data, SAFE_ERROR_CODES[code])
+  }
+}
+
+class PanicError extends TransactionQueueError {
+  constructor(readonly code: number, data: string) {
+    super(`Transaction reverted with panic code 0x${code.toString(16)}`, data)
+  }
+}
+
+class UnknownRevertError extends TransactionQueueError {
+  constructor(data: string) {
+    super(`Transaction reverted with unrecognized data ${data}`, data)
+  }
+}
+
+const CUSTOM_ERRORS: Record<string, new (errorName: string, data: string) => CustomError> = {
+  ExecutionFailure: ExecutionFailureError,
+  InvalidRefundReceiver: InvalidRefundReceiverError,
+  RefundGasBoundariesNotMet: RefundGasBoundariesNotMetError,
+  RefundFailure: RefundFailureError,
+  NotEnoughGas: NotEnoughGasError,
+  RefundParamsExpired: RefundParamsExpiredError,
+  InvalidNonce: InvalidNonceError,
+  InvalidEffectiveGasPriceRefund: InvalidEffectiveGasPriceRefundError,
+}
+
+const isRevertData = (value: any): value is string =>
+  typeof value === 'string' && utils.isHexString(value) && (value.length === 10 || (value.length > 10 && (value.length - 10) % 64 === 0))
+
+// Searches the revert data in the error shapes of ethers, hardhat and JSON-RPC providers,
+// e.g. `error.data`, `error.error.data`, `error.error.error.data` or the JSON encoded response `body`
+const extractRevertData = (error: any, depth = 0): string | undefined => {
+  if (!error || typeof error !== 'object' || depth > 5) return undefined
+  if (isRevertData(error.data)) return error.data
+  for (const nested of [error.data, error.error]) {
+    const data = extractRevertData(nested, depth + 1)
+    if (data) return data
+  }
+  if (typeof error.body === 'string') {
+    try {
+      return extractRevertData(JSON.parse(error.body), depth + 1)
+    } catch {
+      return undefined
+    }
+  }
+  return undefined
+}
+
+const decodeRevertData = (data: string): TransactionQueueError => {
+  const selector = utils.hexDataSlice(data, 0, 4)
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(data, 4))
+    return SAFE_ERROR_CODES[reason] ? new SafeError(reason, data) : new ReasonStringError(reason, data)
+  }
+  if (selector === PANIC_SELECTOR) {
+    const [code] = utils.defaultAbiCoder.decode(['uint256'], utils.hexDataSlice(data, 4))
+    return new PanicError(code.toNumber(), data)
+  }
+  try {
+    const { name } = transactionQueueInterface.parseError(data)
+    return new CUSTOM_ERRORS[name](name, data)
+  } catch {
+    return new UnknownRevertError(data)
+  }
+}
+
+// Returns the decoded revert reason of the error, or the error itself if it doesn't contain revert data
+const decodeTransactionQueueError = (error: any): any => {
+  if (error instanceof TransactionQueueError) return error
+  const data = extractRevertData(error)
+  return data ? decodeRevertData(data) : error
+}
+
+export {
+  SAFE_ERROR_CODES,
+  TransactionQueueError,
+  CustomError,
+  ExecutionFailureError,
+  InvalidRefundReceiverError,
+  RefundGasBoundariesNotMetError,
+  RefundFailureError,
+  NotEnoughGasError,
+  RefundParamsExpiredError,
+  InvalidNonceError,
+  InvalidEffectiveGasPriceRefundError,
+  ReasonStringError,
+  SafeError,
+  PanicError,
+  UnknownRevertError,
+  extractRevertData,
+  decodeRevertData,
+  decodeTransactionQueueError,
+}
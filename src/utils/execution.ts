@@ -1,5 +1,6 @@
-import { chainId } from './../../test/utils/encoding'
-import { Contract, Wallet, utils, BigNumber, BigNumberish, Signer } from 'ethers'
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer'
+import { Contract, utils, BigNumber, BigNumberish, Signer } from 'ethers'
+import { decodeTransactionQueueError } from './errors'
 
 const EIP_DOMAIN = {
   EIP712Domain: [
@@ -21,16 +22,25 @@ const EIP712_SAFE_TX_TYPE = {
 }
 
 const EIP712_REFUND_PARAMS_TYPE = {
-  // "RefundParams(bytes32 safeTxHash,address gasToken,uint120 gasLimit,uint120 maxFeePerGas,address refundReceiver)"
+  // "RefundParams(bytes32 safeTxHash,address gasToken,uint120 gasLimit,uint120 maxFeePerGas,address refundReceiver,uint64 validUntil)"
   RefundParams: [
     { type: 'bytes32', name: 'safeTxHash' },
     { type: 'address', name: 'gasToken' },
     { type: 'uint120', name: 'gasLimit' },
     { type: 'uint120', name: 'maxFeePerGas' },
     { type: 'address', name: 'refundReceiver' },
+    { type: 'uint64', name: 'validUntil' },
   ],
 }
 
+const EIP712_SAFE_MESSAGE_TYPE = {
+  // "SafeMessage(bytes message)"
+  SafeMessage: [{ type: 'bytes', name: 'message' }],
+}
+
+// Any signer that supports EIP-712 signing, e.g. a `Wallet` or a `JsonRpcSigner` of a browser wallet
+type QueueSigner = Signer & TypedDataSigner
+
 interface SafeTransaction {
   safe: string
   to: string
@@ -46,11 +56,23 @@ interface RefundParams {
   gasLimit: string | number | BigNumber
   maxFeePerGas: string | number | BigNumber
   refundReceiver: string
+  // Timestamp after which the refund params can't be executed anymore, 0 if they don't expire
+  validUntil: string | number | BigNumber
 }
 
 interface SafeSignature {
   signer: string
   data: string
+  // Contract signatures (v=0) are appended to the dynamic part of the signature bytes
+  dynamic?: boolean
+}
+
+// Payload of `eth_signTypedData_v4`, with the EIP712Domain type included in the types
+interface TypedDataPayload {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  primaryType: string
+  message: Record<string, any>
 }
 
 function calculateSafeDomainSeparator(safe: Contract, chainId: BigNumberish): string {
@@ -73,8 +95,25 @@ function calculateRefundParamsHash(transactionQueue: Contract, refundParams: Ref
   return utils._TypedDataEncoder.hash({ verifyingContract: transactionQueue.address, chainId }, EIP712_REFUND_PARAMS_TYPE, refundParams)
 }
 
+function calculateSafeMessageHash(safe: Contract, message: string, chainId: BigNumberish): string {
+  return utils._TypedDataEncoder.hash({ verifyingContract: safe.address, chainId }, EIP712_SAFE_MESSAGE_TYPE, { message })
+}
+
+// Payload of `eth_signTypedData_v4`, so the transaction can be signed outside of the SDK
+function buildSafeTransactionTypedData(transactionQueue: Contract, safeTx: SafeTransaction, chainId: BigNumberish): TypedDataPayload {
+  return utils._TypedDataEncoder.getPayload({ verifyingContract: transactionQueue.address, chainId }, EIP712_SAFE_TX_TYPE, safeTx)
+}
+
+function buildRefundParamsTypedData(transactionQueue: Contract, refundParams: RefundParams, chainId: BigNumberish): TypedDataPayload {
+  return utils._TypedDataEncoder.getPayload(
+    { verifyingContract: transactionQueue.address, chainId },
+    EIP712_REFUND_PARAMS_TYPE,
+    refundParams,
+  )
+}
+
 async function queueSignTypedData(
-  signer: Wallet,
+  signer: QueueSigner,
   transactionQueue: Contract,
   safeTx: SafeTransaction,
   chainId?: BigNumberish,
@@ -106,17 +145,65 @@ async function queueSignMessage(signer: Signer, safe: Contract, safeTx: SafeTran
   return signHash(signer, calculateSafeTransactionHash(safe, safeTx, cid))
 }
 
+function buildContractSignature(signer: string, data: string): SafeSignature {
+  return {
+    signer,
+    data,
+    dynamic: true,
+  }
+}
+
+// Signature of an owner that approved the hash with `approveHash` on the Safe
+function buildPreValidatedSignature(signer: string): SafeSignature {
+  return {
+    signer,
+    data: `0x${signer.slice(2).padStart(64, '0')}${'0'.repeat(64)}01`,
+  }
+}
+
+function recoverSignatureSigner(hash: string, signature: string): string {
+  const v = parseInt(signature.slice(-2), 16)
+  // Contract signatures and pre-validated signatures encode the owner in r
+  if (v === 0 || v === 1) {
+    return utils.getAddress(utils.hexDataSlice(signature, 12, 32))
+  }
+  if (v > 30) {
+    return utils.recoverAddress(utils.hashMessage(utils.arrayify(hash)), `${signature.slice(0, -2)}${(v - 4).toString(16)}`)
+  }
+  return utils.recoverAddress(hash, signature)
+}
+
 function buildSignatureBytes(signatures: SafeSignature[]): string {
+  const SIGNATURE_LENGTH_BYTES = 65
   signatures.sort((left, right) => left.signer.toLowerCase().localeCompare(right.signer.toLowerCase()))
   let signatureBytes = '0x'
+  let dynamicBytes = ''
   for (const sig of signatures) {
-    signatureBytes += sig.data.slice(2)
+    if (sig.dynamic) {
+      // Static part: owner as r, offset of the dynamic part as s and v=0
+      const dynamicPartPosition = (signatures.length * SIGNATURE_LENGTH_BYTES + dynamicBytes.length / 2).toString(16).padStart(64, '0')
+      const dynamicPartLength = ((sig.data.length - 2) / 2).toString(16).padStart(64, '0')
+      signatureBytes += `${sig.signer.slice(2).padStart(64, '0')}${dynamicPartPosition}00`
+      dynamicBytes += `${dynamicPartLength}${sig.data.slice(2)}`
+    } else {
+      signatureBytes += sig.data.slice(2)
+    }
+  }
+  return signatureBytes + dynamicBytes
+}
+
+// Imports a signature created outside of the SDK, e.g. with `eth_signTypedData_v4`, after checking that it was signed by the signer
+function importSignature(hash: string, signer: string, data: string): SafeSignature {
+  const recovered = recoverSignatureSigner(hash, data)
+  if (recovered.toLowerCase() !== signer.toLowerCase()) throw Error(`Signature was signed by ${recovered} instead of ${signer}`)
+  return {
+    signer: recovered,
+    data,
   }
-  return signatureBytes
 }
 
 async function signRefundParamsHash(
-  signer: Wallet,
+  signer: Signer,
   transactionQueue: Contract,
   refundParams: RefundParams,
   chainId?: BigNumberish,
@@ -126,7 +213,7 @@ async function signRefundParamsHash(
 }
 
 async function signRefundParamsTypedData(
-  signer: Wallet,
+  signer: QueueSigner,
   transactionQueue: Contract,
   refundParams: RefundParams,
   chainId?: BigNumberish,
@@ -157,6 +244,7 @@ function buildRefundParams(
   gasLimit: string | number | BigNumber,
   maxFeePerGas: string | number | BigNumber,
   refundReceiver: string,
+  validUntil: string | number | BigNumber = 0,
 ): RefundParams {
   return {
     safeTxHash,
@@ -164,6 +252,7 @@ function buildRefundParams(
     gasLimit,
     maxFeePerGas,
     refundReceiver,
+    validUntil,
   }
 }
 
@@ -187,17 +276,21 @@ function buildSafeTransaction(
 
 async function executeTx(transactionQueue: Contract, safeTx: SafeTransaction, signatures: SafeSignature[], overrides?: any): Promise<any> {
   const signatureBytes = buildSignatureBytes(signatures)
-  return transactionQueue.execTransaction(
-    {
-      safe: safeTx.safe,
-      to: safeTx.to,
-      value: safeTx.value,
-      data: safeTx.data,
-      operation: safeTx.operation,
-    },
-    signatureBytes,
-    overrides || {},
-  )
+  return transactionQueue
+    .execTransaction(
+      {
+        safe: safeTx.safe,
+        to: safeTx.to,
+        value: safeTx.value,
+        data: safeTx.data,
+        operation: safeTx.operation,
+      },
+      signatureBytes,
+      overrides || {},
+    )
+    .catch((error: any) => {
+      throw decodeTransactionQueueError(error)
+    })
 }
 
 async function executeTxWithRefund(
@@ -210,19 +303,23 @@ async function executeTxWithRefund(
 ): Promise<any> {
   const signatureBytes = buildSignatureBytes(txSignatures)
   const refundSignatureBytes = buildSignatureBytes([refundSignature])
-  return transactionQueue.execTransactionWithRefund(
-    {
-      safe: safeTx.safe,
-      to: safeTx.to,
-      value: safeTx.value,
-      data: safeTx.data,
-      operation: safeTx.operation,
-    },
-    signatureBytes,
-    refundParams,
-    refundSignatureBytes,
-    overrides || {},
-  )
+  return transactionQueue
+    .execTransactionWithRefund(
+      {
+        safe: safeTx.safe,
+        to: safeTx.to,
+        value: safeTx.value,
+        data: safeTx.data,
+        operation: safeTx.operation,
+      },
+      signatureBytes,
+      refundParams,
+      refundSignatureBytes,
+      overrides || {},
+    )
+    .catch((error: any) => {
+      throw decodeTransactionQueueError(error)
+    })
 }
 
 function buildContractCall(
@@ -243,7 +340,7 @@ function buildContractCall(
   )
 }
 
-async function executeTxWithSigners(transactionQueue: Contract, tx: SafeTransaction, signers: Wallet[], overrides?: any) {
+async function executeTxWithSigners(transactionQueue: Contract, tx: SafeTransaction, signers: QueueSigner[], overrides?: any) {
   const sigs = await Promise.all(signers.map((signer) => queueSignTypedData(signer, transactionQueue, tx)))
   return executeTx(transactionQueue, tx, sigs, overrides)
 }
@@ -251,9 +348,9 @@ async function executeTxWithSigners(transactionQueue: Contract, tx: SafeTransact
 async function executeTxWithSignersAndRefund(
   transactionQueue: Contract,
   tx: SafeTransaction,
-  signers: Wallet[],
+  signers: QueueSigner[],
   refundParams: RefundParams,
-  refundSigner: Wallet,
+  refundSigner: QueueSigner,
   overrides?: any,
 ) {
   const txSigs = await Promise.all(signers.map((signer) => queueSignTypedData(signer, transactionQueue, tx)))
@@ -267,10 +364,10 @@ async function executeContractCallWithSigners(
   contract: Contract,
   method: string,
   params: any[],
-  signers: Wallet[],
+  signers: QueueSigner[],
   transactionParams: Omit<SafeTransaction, 'data' | 'to'>,
   refundParams?: Omit<RefundParams, 'safeTxHash'>,
-  refundSigner?: Wallet,
+  refundSigner?: QueueSigner,
 ) {
   const tx = buildContractCall(transactionParams.safe, contract, method, params, transactionParams)
 
@@ -278,28 +375,39 @@ async function executeContractCallWithSigners(
     return executeTxWithSigners(transactionQueue, tx, signers)
   }
 
-  const refundParamsWithSafeTxHash = { ...refundParams, safeTxHash: calculateSafeTransactionHash(transactionQueue, tx, await chainId()) }
+  const { chainId } = await transactionQueue.provider.getNetwork()
+  const refundParamsWithSafeTxHash = { ...refundParams, safeTxHash: calculateSafeTransactionHash(transactionQueue, tx, chainId) }
 
   return executeTxWithSignersAndRefund(transactionQueue, tx, signers, refundParamsWithSafeTxHash, refundSigner)
 }
 
 export {
+  QueueSigner,
   RefundParams,
   SafeTransaction,
   SafeSignature,
+  TypedDataPayload,
   EIP_DOMAIN,
   EIP712_SAFE_TX_TYPE,
   EIP712_REFUND_PARAMS_TYPE,
+  EIP712_SAFE_MESSAGE_TYPE,
   calculateSafeDomainSeparator,
   preimageSafeTransactionHash,
   calculateSafeTransactionHash,
   preimageRefundParamsHash,
   calculateRefundParamsHash,
+  calculateSafeMessageHash,
+  buildSafeTransactionTypedData,
+  buildRefundParamsTypedData,
   buildSafeTransaction,
   buildRefundParams,
   queueSignTypedData,
   signHash,
   queueSignMessage,
+  buildContractSignature,
+  buildPreValidatedSignature,
+  recoverSignatureSigner,
+  importSignature,
   buildSignatureBytes,
   signRefundParamsHash,
   signRefundParamsTypedData,
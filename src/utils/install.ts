@@ -0,0 +1,301 @@
+import { promises as fs } from 'fs'
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, BigNumberish, Contract, ContractReceipt, PayableOverrides, utils } from 'ethers'
+import { MULTI_SEND_ABI, SAFE_ABI } from './abi'
+import { diffAllowlist, isAllowlistUnchanged } from './allowlist'
+import { TransactionQueueClient } from './client'
+import { QueueSigner, SafeSignature, buildSignatureBytes, importSignature } from './execution'
+import { MULTI_SEND_CALL_ONLY_ADDRESS, MetaTransaction, encodeMultiSend } from './multisend'
+
+// Refund conditions of a gas token as written in the install config, amounts are decimal strings
+interface TokenConditionsConfig {
+  gasToken: string
+  maxFeePerGas: string
+  maxGasLimit: string
+  refundReceiverAllowlist?: string[]
+  // Left unchanged on chain if not set, can only be enabled for the native token
+  refundEffectiveGasPrice?: boolean
+  refundGasOverhead?: number
+}
+
+interface InstallConfig {
+  tokens: TokenConditionsConfig[]
+}
+
+// Transaction executed by the Safe itself with `execTransaction`, the queue can't enable itself as module
+interface SafeNativeTransaction {
+  to: string
+  value: string
+  data: string
+  operation: number
+  safeTxGas: string
+  baseGas: string
+  gasPrice: string
+  gasToken: string
+  refundReceiver: string
+  nonce: string
+}
+
+// Install transaction and the owner signatures, exchanged between owners as JSON file like the queue envelopes
+interface InstallEnvelope {
+  chainId: string
+  safe: string
+  transactionQueue: string
+  safeTxHash: string
+  safeTx: SafeNativeTransaction
+  signatures: SafeSignature[]
+  config: InstallConfig
+}
+
+const EIP712_SAFE_NATIVE_TX_TYPE = {
+  // "SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)"
+  SafeTx: [
+    { type: 'address', name: 'to' },
+    { type: 'uint256', name: 'value' },
+    { type: 'bytes', name: 'data' },
+    { type: 'uint8', name: 'operation' },
+    { type: 'uint256', name: 'safeTxGas' },
+    { type: 'uint256', name: 'baseGas' },
+    { type: 'uint256', name: 'gasPrice' },
+    { type: 'address', name: 'gasToken' },
+    { type: 'address', name: 'refundReceiver' },
+    { type: 'uint256', name: 'nonce' },
+  ],
+}
+
+const multiSendInterface = new utils.Interface(MULTI_SEND_ABI)
+
+const parseInstallConfig = (config: any): InstallConfig => {
+  if (!config || !Array.isArray(config.tokens)) throw Error('Install config requires a tokens array')
+  return {
+    tokens: config.tokens.map((token: any, index: number) => {
+      try {
+        if (token.refundEffectiveGasPrice && utils.getAddress(token.gasToken) !== AddressZero) {
+          throw Error('refunds at the effective gas price are only supported for the native token')
+        }
+        return {
+          ...token,
+          gasToken: utils.getAddress(token.gasToken),
+          maxFeePerGas: BigNumber.from(token.maxFeePerGas).toString(),
+          maxGasLimit: BigNumber.from(token.maxGasLimit).toString(),
+          refundReceiverAllowlist: (token.refundReceiverAllowlist || []).map((address: string) => utils.getAddress(address)),
+        }
+      } catch (e) {
+        throw Error(`Invalid refund conditions for token ${index} in install config: ${(e as Error).message}`)
+      }
+    }),
+  }
+}
+
+const readInstallConfig = async (path: string): Promise<InstallConfig> => parseInstallConfig(JSON.parse(await fs.readFile(path, 'utf8')))
+
+// Calls that enable the queue as module of the Safe (unless it already is) and set the refund conditions of every configured token
+const buildInstallTransactions = async (
+  client: TransactionQueueClient,
+  safe: string,
+  config: InstallConfig,
+): Promise<MetaTransaction[]> => {
+  const safeContract = new Contract(safe, SAFE_ABI, client.contract.provider)
+  const queueInterface = client.contract.interface
+  const txs: MetaTransaction[] = []
+  if (!(await safeContract.isModuleEnabled(client.address))) {
+    txs.push({ to: safe, value: 0, data: safeContract.interface.encodeFunctionData('enableModule', [client.address]), operation: 0 })
+  }
+  const queueCall = (method: string, params: any[]): MetaTransaction => ({
+    to: client.address,
+    value: 0,
+    data: queueInterface.encodeFunctionData(method, params),
+    operation: 0,
+  })
+  for (const token of config.tokens) {
+    txs.push(queueCall('setRefundConditions', [token.gasToken, token.maxFeePerGas, token.maxGasLimit, token.refundReceiverAllowlist || []]))
+    if (token.refundEffectiveGasPrice !== undefined) {
+      txs.push(queueCall('setEffectiveGasPriceRefund', [token.gasToken, token.refundEffectiveGasPrice]))
+    }
+    if (token.refundGasOverhead !== undefined) txs.push(queueCall('setRefundGasOverhead', [token.gasToken, token.refundGasOverhead]))
+  }
+  return txs
+}
+
+// A single call is executed directly, multiple calls are batched with a delegatecall to MultiSendCallOnly
+const buildSafeNativeTransaction = (
+  txs: MetaTransaction[],
+  nonce: BigNumberish,
+  multiSendAddress = MULTI_SEND_CALL_ONLY_ADDRESS,
+): SafeNativeTransaction => {
+  if (txs.length === 0) throw Error('Nothing to install')
+  const [to, value, data, operation] =
+    txs.length === 1
+      ? [txs[0].to, txs[0].value, txs[0].data, txs[0].operation]
+      : [multiSendAddress, 0, multiSendInterface.encodeFunctionData('multiSend', [encodeMultiSend(txs)]), 1]
+  return {
+    to,
+    value: BigNumber.from(value).toString(),
+    data,
+    operation,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: AddressZero,
+    refundReceiver: AddressZero,
+    nonce: BigNumber.from(nonce).toString(),
+  }
+}
+
+const calculateSafeNativeTransactionHash = (safe: string, safeTx: SafeNativeTransaction, chainId: BigNumberish): string =>
+  utils._TypedDataEncoder.hash({ verifyingContract: safe, chainId }, EIP712_SAFE_NATIVE_TX_TYPE, safeTx)
+
+const createInstallEnvelope = async (
+  client: TransactionQueueClient,
+  safe: string,
+  config: InstallConfig,
+  multiSendAddress?: string,
+): Promise<InstallEnvelope> => {
+  const nonce = await new Contract(safe, SAFE_ABI, client.contract.provider).nonce()
+  const safeTx = buildSafeNativeTransaction(await buildInstallTransactions(client, safe, config), nonce, multiSendAddress)
+  return {
+    chainId: BigNumber.from(client.chainId).toString(),
+    safe,
+    transactionQueue: client.address,
+    safeTxHash: calculateSafeNativeTransactionHash(safe, safeTx, client.chainId),
+    safeTx,
+    signatures: [],
+    config,
+  }
+}
+
+const readInstallEnvelope = async (client: TransactionQueueClient, path: string): Promise<InstallEnvelope> => {
+  const envelope: InstallEnvelope = JSON.parse(await fs.readFile(path, 'utf8'))
+  if (envelope.transactionQueue.toLowerCase() !== client.address.toLowerCase() || !BigNumber.from(envelope.chainId).eq(client.chainId)) {
+    throw Error(`Install envelope ${path} was created for ${envelope.transactionQueue} on chain ${envelope.chainId}`)
+  }
+  return envelope
+}
+
+const writeInstallEnvelope = async (path: string, envelope: InstallEnvelope): Promise<void> => {
+  await fs.writeFile(path, JSON.stringify(envelope, null, 2))
+}
+
+// Fixed order of the fields, so configs only differing in the order of the keys are equal
+const serializeInstallConfig = (config: InstallConfig): string =>
+  JSON.stringify(
+    config.tokens.map((token) => [
+      token.gasToken,
+      token.maxFeePerGas,
+      token.maxGasLimit,
+      token.refundReceiverAllowlist || [],
+      token.refundEffectiveGasPrice,
+      token.refundGasOverhead,
+    ]),
+  )
+
+// Envelopes of earlier runs have to install the same config on the same Safe
+const checkInstallEnvelope = (envelope: InstallEnvelope, safe: string, config: InstallConfig): void => {
+  if (envelope.safe.toLowerCase() !== safe.toLowerCase()) {
+    throw Error(`Install envelope ${envelope.safeTxHash} was created for ${envelope.safe}`)
+  }
+  if (serializeInstallConfig(parseInstallConfig(envelope.config)) !== serializeInstallConfig(config)) {
+    throw Error(`Install envelope ${envelope.safeTxHash} was created for other refund conditions`)
+  }
+}
+
+const hasInstallSignature = (envelope: InstallEnvelope, signer: string): boolean =>
+  envelope.signatures.some((s) => s.signer.toLowerCase() === signer.toLowerCase())
+
+const addInstallSignature = (envelope: InstallEnvelope, signature: SafeSignature): SafeSignature => {
+  const imported = importSignature(envelope.safeTxHash, signature.signer, signature.data)
+  if (hasInstallSignature(envelope, imported.signer)) {
+    throw Error(`${imported.signer} already signed ${envelope.safeTxHash}`)
+  }
+  envelope.signatures.push(imported)
+  return imported
+}
+
+const signInstallEnvelope = async (envelope: InstallEnvelope, signer: QueueSigner): Promise<SafeSignature> => {
+  const data = await signer._signTypedData(
+    { verifyingContract: envelope.safe, chainId: envelope.chainId },
+    EIP712_SAFE_NATIVE_TX_TYPE,
+    envelope.safeTx,
+  )
+  return addInstallSignature(envelope, { signer: await signer.getAddress(), data })
+}
+
+// Number of signatures that are still required by the threshold of the Safe
+const getMissingInstallSignatures = async (client: TransactionQueueClient, envelope: InstallEnvelope): Promise<number> => {
+  const threshold: BigNumber = await new Contract(envelope.safe, SAFE_ABI, client.contract.provider).getThreshold()
+  return Math.max(threshold.toNumber() - envelope.signatures.length, 0)
+}
+
+// Executed by the signer of the client, the Safe checks the signatures
+const executeInstallEnvelope = async (
+  client: TransactionQueueClient,
+  envelope: InstallEnvelope,
+  overrides: PayableOverrides = {},
+): Promise<ContractReceipt> => {
+  const { to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver } = envelope.safeTx
+  const safe = new Contract(envelope.safe, SAFE_ABI, client.contract.signer)
+  const signatures = buildSignatureBytes([...envelope.signatures])
+  const tx = await safe.execTransaction(
+    to,
+    value,
+    data,
+    operation,
+    safeTxGas,
+    baseGas,
+    gasPrice,
+    gasToken,
+    refundReceiver,
+    signatures,
+    overrides,
+  )
+  return tx.wait()
+}
+
+// Compares the module status and the on chain refund conditions with the config, returns every mismatch
+const verifyInstallation = async (client: TransactionQueueClient, safe: string, config: InstallConfig): Promise<string[]> => {
+  const problems: string[] = []
+  if (!(await new Contract(safe, SAFE_ABI, client.contract.provider).isModuleEnabled(client.address))) {
+    problems.push(`${client.address} is not enabled as module of ${safe}`)
+  }
+  for (const token of config.tokens) {
+    const conditions = await client.readConditions(safe, token.gasToken)
+    if (!conditions.maxFeePerGas.eq(token.maxFeePerGas)) {
+      problems.push(`Max fee per gas of ${token.gasToken} is ${conditions.maxFeePerGas} instead of ${token.maxFeePerGas}`)
+    }
+    if (!conditions.maxGasLimit.eq(token.maxGasLimit)) {
+      problems.push(`Max gas limit of ${token.gasToken} is ${conditions.maxGasLimit} instead of ${token.maxGasLimit}`)
+    }
+    const diff = diffAllowlist(token.refundReceiverAllowlist || [], await client.getRefundReceivers(safe, token.gasToken))
+    if (!isAllowlistUnchanged(diff)) problems.push(`Refund receiver allowlist of ${token.gasToken} does not match the config`)
+    if (token.refundEffectiveGasPrice !== undefined && conditions.refundEffectiveGasPrice !== token.refundEffectiveGasPrice) {
+      problems.push(`Effective gas price refund of ${token.gasToken} is ${conditions.refundEffectiveGasPrice ? 'enabled' : 'disabled'}`)
+    }
+    if (token.refundGasOverhead !== undefined && conditions.refundGasOverhead !== token.refundGasOverhead) {
+      problems.push(`Refund gas overhead of ${token.gasToken} is ${conditions.refundGasOverhead} instead of ${token.refundGasOverhead}`)
+    }
+  }
+  return problems
+}
+
+export {
+  TokenConditionsConfig,
+  InstallConfig,
+  SafeNativeTransaction,
+  InstallEnvelope,
+  EIP712_SAFE_NATIVE_TX_TYPE,
+  parseInstallConfig,
+  readInstallConfig,
+  buildInstallTransactions,
+  buildSafeNativeTransaction,
+  calculateSafeNativeTransactionHash,
+  createInstallEnvelope,
+  readInstallEnvelope,
+  writeInstallEnvelope,
+  checkInstallEnvelope,
+  hasInstallSignature,
+  addInstallSignature,
+  signInstallEnvelope,
+  getMissingInstallSignatures,
+  executeInstallEnvelope,
+  verifyInstallation,
+}
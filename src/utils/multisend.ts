@@ -0,0 +1,60 @@
+import { BigNumber, BigNumberish, utils } from 'ethers'
+import { MULTI_SEND_ABI } from './abi'
+import { SafeTransaction, buildSafeTransaction } from './execution'
+
+// Canonical deployments of the Safe contracts v1.3.0
+const MULTI_SEND_ADDRESS = '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761'
+const MULTI_SEND_CALL_ONLY_ADDRESS = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D'
+
+const DELEGATECALL_OPERATION = 1
+
+const multiSendInterface = new utils.Interface(MULTI_SEND_ABI)
+
+interface MetaTransaction {
+  to: string
+  value: BigNumberish
+  data: string
+  operation: number
+}
+
+// Packs every transaction as operation (uint8), to (address), value (uint256), data length (uint256) and data
+const encodeMultiSend = (txs: MetaTransaction[]): string =>
+  utils.hexConcat(
+    txs.map((tx) =>
+      utils.solidityPack(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [tx.operation, tx.to, tx.value, utils.hexDataLength(tx.data), tx.data],
+      ),
+    ),
+  )
+
+const buildMultiSendTransaction = (
+  safe: string,
+  txs: MetaTransaction[],
+  nonce: BigNumberish,
+  multiSendAddress = MULTI_SEND_CALL_ONLY_ADDRESS,
+): SafeTransaction => {
+  if (txs.length === 0) throw Error('MultiSend requires at least one transaction')
+  const data = multiSendInterface.encodeFunctionData('multiSend', [encodeMultiSend(txs)])
+  return buildSafeTransaction(safe, multiSendAddress, 0, data, DELEGATECALL_OPERATION, BigNumber.from(nonce).toString())
+}
+
+// Splits the data of a MultiSend transaction back into its transactions
+const decodeMultiSend = (data: string): MetaTransaction[] => {
+  const [transactions] = multiSendInterface.decodeFunctionData('multiSend', data)
+  const txs: MetaTransaction[] = []
+  let offset = 0
+  while (offset < utils.hexDataLength(transactions)) {
+    const dataLength = BigNumber.from(utils.hexDataSlice(transactions, offset + 53, offset + 85)).toNumber()
+    txs.push({
+      operation: BigNumber.from(utils.hexDataSlice(transactions, offset, offset + 1)).toNumber(),
+      to: utils.getAddress(utils.hexDataSlice(transactions, offset + 1, offset + 21)),
+      value: BigNumber.from(utils.hexDataSlice(transactions, offset + 21, offset + 53)).toString(),
+      data: utils.hexDataSlice(transactions, offset + 85, offset + 85 + dataLength),
+    })
+    offset += 85 + dataLength
+  }
+  return txs
+}
+
+export { MULTI_SEND_ADDRESS, MULTI_SEND_CALL_ONLY_ADDRESS, MetaTransaction, encodeMultiSend, buildMultiSendTransaction, decodeMultiSend }
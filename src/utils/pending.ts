@@ -0,0 +1,104 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { TransactionQueueClient } from './client'
+import { SafeTransaction } from './execution'
+
+// stale: the queue nonce already passed the transaction, it can never be executed
+// executable: the transaction uses the current queue nonce
+// conflicting: another pending transaction uses the same nonce
+// queued: the transaction waits for the transactions with lower nonces
+type PendingState = 'stale' | 'executable' | 'conflicting' | 'queued'
+
+interface PendingTransaction {
+  safeTxHash: string
+  safeTx: SafeTransaction
+  state: PendingState
+}
+
+// Tracks locally pending transactions of a Safe against its nonce in the transaction queue (`safeNonces`)
+class PendingTransactionManager {
+  private readonly transactions = new Map<string, SafeTransaction>()
+
+  constructor(readonly client: TransactionQueueClient, readonly safe: string) {}
+
+  // Next free nonce: the queue nonce or the nonce following the highest pending transaction that is not stale
+  async getNextNonce(): Promise<BigNumber> {
+    const nonce = await this.client.getNonce(this.safe)
+    let next = nonce
+    this.transactions.forEach((safeTx) => {
+      if (BigNumber.from(safeTx.nonce).gte(next)) next = BigNumber.from(safeTx.nonce).add(1)
+    })
+    return next
+  }
+
+  async propose(to: string, value: BigNumberish, data: string, operation: number): Promise<SafeTransaction> {
+    const safeTx = await this.client.propose(this.safe, to, value, data, operation, await this.getNextNonce())
+    this.add(safeTx)
+    return safeTx
+  }
+
+  add(safeTx: SafeTransaction): string {
+    if (safeTx.safe.toLowerCase() !== this.safe.toLowerCase()) throw Error(`Transaction is not for Safe ${this.safe}`)
+    const safeTxHash = this.client.getTransactionHash(safeTx)
+    this.transactions.set(safeTxHash, safeTx)
+    return safeTxHash
+  }
+
+  remove(safeTxHash: string): boolean {
+    return this.transactions.delete(safeTxHash)
+  }
+
+  // Pending transactions ordered by nonce
+  async getPending(): Promise<PendingTransaction[]> {
+    const nonce = await this.client.getNonce(this.safe)
+    const nonceCounts = new Map<string, number>()
+    this.transactions.forEach((safeTx) => {
+      const key = BigNumber.from(safeTx.nonce).toString()
+      nonceCounts.set(key, (nonceCounts.get(key) || 0) + 1)
+    })
+
+    const pending: PendingTransaction[] = []
+    this.transactions.forEach((safeTx, safeTxHash) => {
+      const txNonce = BigNumber.from(safeTx.nonce)
+      let state: PendingState = 'queued'
+      if (txNonce.lt(nonce)) state = 'stale'
+      else if (nonceCounts.get(txNonce.toString())! > 1) state = 'conflicting'
+      else if (txNonce.eq(nonce)) state = 'executable'
+      pending.push({ safeTxHash, safeTx, state })
+    })
+    return pending.sort((left, right) => {
+      const difference = BigNumber.from(left.safeTx.nonce).sub(right.safeTx.nonce)
+      return difference.isZero() ? 0 : difference.isNegative() ? -1 : 1
+    })
+  }
+
+  // Transactions competing for the same nonce, keyed by the nonce
+  async getConflicts(): Promise<Map<string, string[]>> {
+    const conflicts = new Map<string, string[]>()
+    for (const { safeTxHash, safeTx, state } of await this.getPending()) {
+      if (state !== 'conflicting') continue
+      const key = BigNumber.from(safeTx.nonce).toString()
+      conflicts.set(key, [...(conflicts.get(key) || []), safeTxHash])
+    }
+    return conflicts
+  }
+
+  // Transaction that can be executed with the current queue nonce, undefined if there is none
+  async getNextExecutable(): Promise<PendingTransaction | undefined> {
+    const pending = await this.getPending()
+    const nonce = await this.client.getNonce(this.safe)
+    const candidates = pending.filter(({ safeTx }) => nonce.eq(safeTx.nonce))
+    if (candidates.length > 1) {
+      throw Error(`Transactions ${candidates.map((c) => c.safeTxHash).join(', ')} compete for nonce ${nonce}`)
+    }
+    return candidates[0]
+  }
+
+  // Removes and returns the stale transactions
+  async pruneStale(): Promise<PendingTransaction[]> {
+    const stale = (await this.getPending()).filter(({ state }) => state === 'stale')
+    stale.forEach(({ safeTxHash }) => this.transactions.delete(safeTxHash))
+    return stale
+  }
+}
+
+export { PendingState, PendingTransaction, PendingTransactionManager }
@@ -0,0 +1,156 @@
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, BigNumberish, Contract, utils } from 'ethers'
+import { ERC20_ABI, SAFE_ABI } from './abi'
+import { TransactionQueueClient } from './client'
+import {
+  RefundParams,
+  SafeSignature,
+  SafeTransaction,
+  buildSignatureBytes,
+  preimageRefundParamsHash,
+  preimageSafeTransactionHash,
+} from './execution'
+import { checkSafeSignature } from './signatures'
+
+// Codes match the custom errors of the contract where the revert is caused by one of them
+type PreflightErrorCode =
+  | 'NonceMismatch'
+  | 'InvalidTransactionSignature'
+  | 'InvalidRefundSignature'
+  | 'RefundParamsExpired'
+  | 'InvalidRefundReceiver'
+  | 'RefundGasBoundariesNotMet'
+  | 'NotEnoughGas'
+  | 'RefundFailure'
+
+interface PreflightProblem {
+  code: PreflightErrorCode
+  message: string
+}
+
+interface PreflightRequest {
+  safeTx: SafeTransaction
+  signatures: SafeSignature[]
+  refundParams: RefundParams
+  refundSignature: SafeSignature
+  // Gas limit of the transaction that will be submitted, the gas check is skipped if it is not provided
+  suppliedGas?: BigNumberish
+}
+
+// Gas used by the function dispatch before `gasleft()` is read, and per word of signatures that are decoded into memory
+const DISPATCH_GAS = 2000
+const SIGNATURE_WORD_DECODING_GAS = 6
+
+const estimateGasBeforeStart = (signatures: SafeSignature[], refundSignature: SafeSignature): number => {
+  const signatureBytes =
+    utils.hexDataLength(buildSignatureBytes([...signatures])) + utils.hexDataLength(buildSignatureBytes([refundSignature]))
+  return DISPATCH_GAS + Math.ceil(signatureBytes / 32) * SIGNATURE_WORD_DECODING_GAS
+}
+
+// Checks the request the same way `execTransactionWithRefund` does and returns every check that would make it revert
+const preflightExecTransactionWithRefund = async (
+  client: TransactionQueueClient,
+  request: PreflightRequest,
+): Promise<PreflightProblem[]> => {
+  const { safeTx, signatures, refundParams, refundSignature } = request
+  const provider = client.contract.provider
+  const safe = new Contract(safeTx.safe, SAFE_ABI, provider)
+  const problems: PreflightProblem[] = []
+
+  const nonce = await client.getNonce(safeTx.safe)
+  if (!nonce.eq(safeTx.nonce)) {
+    problems.push({ code: 'NonceMismatch', message: `Transaction nonce ${safeTx.nonce} does not match queue nonce ${nonce}` })
+  }
+
+  const safeTxHash = client.getTransactionHash(safeTx)
+  const threshold: BigNumber = await safe.getThreshold()
+  if (threshold.gt(signatures.length)) {
+    problems.push({
+      code: 'InvalidTransactionSignature',
+      message: `${signatures.length} signatures do not reach the threshold of ${threshold}`,
+    })
+  }
+  const signers = new Set<string>()
+  for (const signature of signatures) {
+    // The Safe requires the owners in ascending order, so an owner can't sign twice
+    if (signers.has(signature.signer.toLowerCase())) {
+      problems.push({ code: 'InvalidTransactionSignature', message: `${signature.signer} signed more than once` })
+      continue
+    }
+    signers.add(signature.signer.toLowerCase())
+    const message = await checkSafeSignature(
+      safe,
+      safeTxHash,
+      preimageSafeTransactionHash(client.contract, safeTx, client.chainId),
+      signature,
+    )
+    if (message) problems.push({ code: 'InvalidTransactionSignature', message })
+  }
+
+  if (refundParams.safeTxHash !== safeTxHash) {
+    problems.push({
+      code: 'InvalidRefundSignature',
+      message: `Refund params are signed for ${refundParams.safeTxHash} instead of ${safeTxHash}`,
+    })
+  } else {
+    const refundParamsData = preimageRefundParamsHash(client.contract, refundParams, client.chainId)
+    const message = await checkSafeSignature(safe, client.getRefundParamsHash(refundParams), refundParamsData, refundSignature)
+    if (message) problems.push({ code: 'InvalidRefundSignature', message })
+  }
+
+  const validUntil = BigNumber.from(refundParams.validUntil)
+  if (!validUntil.eq(0)) {
+    // The transaction is included in a later block, which has a greater timestamp than the latest one
+    const { timestamp } = await provider.getBlock('latest')
+    if (validUntil.lte(timestamp)) {
+      problems.push({ code: 'RefundParamsExpired', message: `Refund params expired at ${validUntil}, latest block is at ${timestamp}` })
+    }
+  }
+
+  if (!(await client.contract.isAllowedRefundReceiver(safeTx.safe, refundParams.gasToken, refundParams.refundReceiver))) {
+    problems.push({ code: 'InvalidRefundReceiver', message: `${refundParams.refundReceiver} is not an allowed refund receiver` })
+  }
+
+  const conditions = await client.readConditions(safeTx.safe, refundParams.gasToken)
+  if (conditions.maxFeePerGas.lt(refundParams.maxFeePerGas)) {
+    problems.push({
+      code: 'RefundGasBoundariesNotMet',
+      message: `Max fee per gas ${refundParams.maxFeePerGas} exceeds the boundary of ${conditions.maxFeePerGas}`,
+    })
+  }
+  if (conditions.maxGasLimit.lt(refundParams.gasLimit)) {
+    problems.push({
+      code: 'RefundGasBoundariesNotMet',
+      message: `Gas limit ${refundParams.gasLimit} exceeds the boundary of ${conditions.maxGasLimit}`,
+    })
+  }
+
+  if (request.suppliedGas !== undefined) {
+    // The contract adds the exact intrinsic gas to `gasleft()`, so the start gas is the supplied gas minus the gas used before the first instruction
+    const requiredGas = BigNumber.from(refundParams.gasLimit).add(estimateGasBeforeStart(signatures, refundSignature))
+    if (BigNumber.from(request.suppliedGas).lt(requiredGas)) {
+      problems.push({
+        code: 'NotEnoughGas',
+        message: `Supplied gas of ${request.suppliedGas} is less than the ${requiredGas} gas required by the signed gas limit ${refundParams.gasLimit}`,
+      })
+    }
+  }
+
+  const maxPayment = BigNumber.from(refundParams.gasLimit).mul(refundParams.maxFeePerGas)
+  let balance: BigNumber
+  let required = maxPayment
+  if (refundParams.gasToken === AddressZero) {
+    balance = await provider.getBalance(safeTx.safe)
+    // Native value sent by the transaction is no longer available for the refund
+    if (safeTx.operation === 0) required = required.add(safeTx.value)
+  } else {
+    balance = await new Contract(refundParams.gasToken, ERC20_ABI, provider).balanceOf(safeTx.safe)
+  }
+  if (balance.lt(required)) {
+    problems.push({ code: 'RefundFailure', message: `Safe balance of ${balance} does not cover the maximum refund of ${maxPayment}` })
+  }
+
+  return problems
+}
+
+export { PreflightErrorCode, PreflightProblem, PreflightRequest, preflightExecTransactionWithRefund }
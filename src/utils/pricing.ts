@@ -0,0 +1,145 @@
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, BigNumberish, Contract, providers } from 'ethers'
+import { ERC20_ABI, PRICE_FEED_ABI } from './abi'
+import { RefundParams, buildRefundParams } from './execution'
+
+const NATIVE_TOKEN_DECIMALS = 18
+const BASIS_POINTS = 10000
+
+// Price of one whole gas token in the native token, scaled by `10 ** decimals` (same as Chainlink TOKEN/ETH feeds)
+interface TokenPrice {
+  price: BigNumber
+  decimals: number
+}
+
+interface PriceSource {
+  getPrice(gasToken: string): Promise<TokenPrice>
+}
+
+interface OracleBound {
+  source: PriceSource
+  // Maximum deviation of the price source from the oracle in basis points
+  maxDeviationBps: number
+}
+
+// Fixed prices, e.g. from a config file or an off-chain API that was queried before
+class StaticPriceSource implements PriceSource {
+  private readonly prices = new Map<string, TokenPrice>()
+
+  constructor(prices: Record<string, { price: BigNumberish; decimals: number }> = {}) {
+    for (const gasToken of Object.keys(prices)) this.setPrice(gasToken, prices[gasToken].price, prices[gasToken].decimals)
+  }
+
+  setPrice(gasToken: string, price: BigNumberish, decimals: number): void {
+    this.prices.set(gasToken.toLowerCase(), { price: BigNumber.from(price), decimals })
+  }
+
+  async getPrice(gasToken: string): Promise<TokenPrice> {
+    const price = this.prices.get(gasToken.toLowerCase())
+    if (!price) throw Error(`No price for gas token ${gasToken}`)
+    return price
+  }
+}
+
+// Reads the prices from Chainlink compatible price feeds, rejects prices that were not updated within `maxAge` seconds
+class OraclePriceSource implements PriceSource {
+  private readonly feeds = new Map<string, string>()
+
+  constructor(readonly provider: providers.Provider, feeds: Record<string, string> = {}, readonly maxAge?: number) {
+    for (const gasToken of Object.keys(feeds)) this.feeds.set(gasToken.toLowerCase(), feeds[gasToken])
+  }
+
+  async getPrice(gasToken: string): Promise<TokenPrice> {
+    const feedAddress = this.feeds.get(gasToken.toLowerCase())
+    if (!feedAddress) throw Error(`No price feed for gas token ${gasToken}`)
+    const feed = new Contract(feedAddress, PRICE_FEED_ABI, this.provider)
+    const [decimals, { answer, updatedAt }] = await Promise.all([feed.decimals(), feed.latestRoundData()])
+    if (!answer.gt(0)) throw Error(`Invalid price ${answer} reported by ${feedAddress}`)
+    if (this.maxAge !== undefined) {
+      const { timestamp } = await this.provider.getBlock('latest')
+      if (updatedAt.add(this.maxAge).lt(timestamp)) throw Error(`Price reported by ${feedAddress} is older than ${this.maxAge} seconds`)
+    }
+    return { price: answer, decimals }
+  }
+}
+
+// Converts a gas price in wei into the smallest unit of the gas token. Rounds up, so the refund never falls short of the gas price.
+const convertGasPrice = (gasPrice: BigNumberish, tokenPrice: TokenPrice, tokenDecimals: number): BigNumber => {
+  const numerator = BigNumber.from(gasPrice).mul(BigNumber.from(10).pow(tokenPrice.decimals)).mul(BigNumber.from(10).pow(tokenDecimals))
+  const denominator = tokenPrice.price.mul(BigNumber.from(10).pow(NATIVE_TOKEN_DECIMALS))
+  return numerator.add(denominator).sub(1).div(denominator)
+}
+
+// Deviation between two prices in basis points, the prices are normalized to the same decimals
+const calculateDeviationBps = (price: TokenPrice, reference: TokenPrice): BigNumber => {
+  const decimals = Math.max(price.decimals, reference.decimals)
+  const normalized = price.price.mul(BigNumber.from(10).pow(decimals - price.decimals))
+  const normalizedReference = reference.price.mul(BigNumber.from(10).pow(decimals - reference.decimals))
+  return normalized.sub(normalizedReference).abs().mul(BASIS_POINTS).div(normalizedReference)
+}
+
+// Prices refunds in gas tokens, refunds in the native token use the gas price as is
+class GasTokenPricer {
+  private readonly tokenDecimals = new Map<string, number>()
+
+  constructor(readonly provider: providers.Provider, readonly source: PriceSource, readonly oracleBound?: OracleBound) {}
+
+  async getTokenDecimals(gasToken: string): Promise<number> {
+    const key = gasToken.toLowerCase()
+    if (!this.tokenDecimals.has(key)) {
+      this.tokenDecimals.set(key, await new Contract(gasToken, ERC20_ABI, this.provider).decimals())
+    }
+    return this.tokenDecimals.get(key)!
+  }
+
+  // Price of the gas token, checked against the oracle bound if one is configured
+  async getPrice(gasToken: string): Promise<TokenPrice> {
+    const price = await this.source.getPrice(gasToken)
+    if (this.oracleBound) {
+      const reference = await this.oracleBound.source.getPrice(gasToken)
+      const deviation = calculateDeviationBps(price, reference)
+      if (deviation.gt(this.oracleBound.maxDeviationBps)) {
+        throw Error(
+          `Price of ${gasToken} deviates ${deviation} bps from the oracle price, allowed are ${this.oracleBound.maxDeviationBps} bps`,
+        )
+      }
+    }
+    return price
+  }
+
+  // Amount of the gas token that is worth the given amount in wei, rounded up
+  async getTokenAmount(gasToken: string, amount: BigNumberish): Promise<BigNumber> {
+    if (gasToken === AddressZero) return BigNumber.from(amount)
+    const [price, decimals] = await Promise.all([this.getPrice(gasToken), this.getTokenDecimals(gasToken)])
+    return convertGasPrice(amount, price, decimals)
+  }
+
+  // `maxFeePerGas` of the refund params for the given gas price in wei
+  async getMaxFeePerGas(gasToken: string, gasPrice: BigNumberish): Promise<BigNumber> {
+    return this.getTokenAmount(gasToken, gasPrice)
+  }
+
+  async buildRefundParams(
+    safeTxHash: string,
+    gasToken: string,
+    gasLimit: BigNumberish,
+    gasPrice: BigNumberish,
+    refundReceiver: string,
+    validUntil: BigNumberish = 0,
+  ): Promise<RefundParams> {
+    const maxFeePerGas = await this.getMaxFeePerGas(gasToken, gasPrice)
+    return buildRefundParams(safeTxHash, gasToken, BigNumber.from(gasLimit), maxFeePerGas, refundReceiver, BigNumber.from(validUntil))
+  }
+}
+
+export {
+  NATIVE_TOKEN_DECIMALS,
+  TokenPrice,
+  PriceSource,
+  OracleBound,
+  StaticPriceSource,
+  OraclePriceSource,
+  convertGasPrice,
+  calculateDeviationBps,
+  GasTokenPricer,
+}
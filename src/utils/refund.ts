@@ -0,0 +1,135 @@
+import { AddressZero } from '@ethersproject/constants'
+import { BigNumber, BigNumberish, providers, utils } from 'ethers'
+import { RefundCondition } from './client'
+import { RefundParams } from './execution'
+
+// Constants used by SafeTransactionQueueConditionalRefund.execTransactionWithRefund and handleRefund
+const TX_BASE_GAS = 21000
+// Gas used by the refund logic after the contract measured the consumed gas, used unless the Safe configured its own overhead.
+// The native transfer assumes a cold refund receiver, the token transfer a refund receiver that already holds tokens.
+const NATIVE_REFUND_GAS_OVERHEAD = 19055
+const TOKEN_REFUND_GAS_OVERHEAD = 26175
+// The relayer is tx.origin and is always warm, so native transfers to the relayer are cheaper
+const WARM_ACCOUNT_ACCESS_DISCOUNT = 2500
+
+// Actual calldata costs as defined in EIP-2028
+const CALLDATA_ZERO_BYTE_GAS = 4
+const CALLDATA_NON_ZERO_BYTE_GAS = 16
+
+interface GasFees {
+  baseFeePerGas: BigNumberish
+  maxPriorityFeePerGas: BigNumberish
+}
+
+// Refund settings of the Safe that change the payment
+type RefundMode = Partial<Pick<RefundCondition, 'refundEffectiveGasPrice' | 'refundGasOverhead'>>
+
+interface RefundEstimate {
+  // Intrinsic gas as charged by the network, the contract accounts for it exactly
+  intrinsicGas: BigNumber
+  // Gas the contract is expected to account for, before the gas limit cap
+  gasConsumed: BigNumber
+  // Gas the contract is expected to refund, capped by the signed gas limit
+  refundedGas: BigNumber
+  // Refund paid by the Safe in the gas token, depends on the refund mode of the Safe
+  payment: BigNumber
+  // Refund at the signed maxFeePerGas
+  signedPayment: BigNumber
+  // Refund at min(maxFeePerGas, effectiveGasPrice), paid if the Safe refunds at the effective gas price
+  effectivePayment: BigNumber
+  // Difference between the signed and the effective payment
+  saving: BigNumber
+  // Gas price the relayer pays per unit of gas
+  effectiveGasPrice: BigNumber
+  // Cost of the execution for the relayer in wei
+  executionCost: BigNumber
+  // Difference between the payment and the execution cost, negative if the relayer loses money
+  profit: BigNumber
+  profitable: boolean
+}
+
+const calculateIntrinsicGas = (calldata: string): BigNumber => {
+  const bytes = utils.arrayify(calldata)
+  const calldataGas = bytes.reduce((gas, byte) => gas + (byte === 0 ? CALLDATA_ZERO_BYTE_GAS : CALLDATA_NON_ZERO_BYTE_GAS), 0)
+  return BigNumber.from(TX_BASE_GAS + calldataGas)
+}
+
+// Overhead the contract adds if the Safe didn't configure one. Native refunds to the relayer (tx.origin) are cheaper,
+// which is the case for the zero address as refund receiver or if the receiver is the `relayer` submitting the transaction
+const getDefaultRefundGasOverhead = (gasToken: string, refundReceiver: string, relayer?: string): number => {
+  if (gasToken !== AddressZero) return TOKEN_REFUND_GAS_OVERHEAD
+  const refundsRelayer = refundReceiver === AddressZero || (relayer !== undefined && refundReceiver.toLowerCase() === relayer.toLowerCase())
+  return refundsRelayer ? NATIVE_REFUND_GAS_OVERHEAD - WARM_ACCOUNT_ACCESS_DISCOUNT : NATIVE_REFUND_GAS_OVERHEAD
+}
+
+// Predicts the refund payment of `execTransactionWithRefund` and compares it to the cost of the relayer.
+// `calldata` is the full calldata of the `execTransactionWithRefund` call and `gasUsed` the expected gas used by the transaction.
+// The execution cost is in wei, so the profit is only meaningful for refunds in the native token.
+// `mode` are the refund settings of the Safe as returned by `readConditions` and `refundGas` the gas actually used by the refund logic,
+// which matches the default overhead unless the token transfer is more expensive. `relayer` is the account that submits the transaction.
+const estimateRefund = (
+  refundParams: RefundParams,
+  calldata: string,
+  gasUsed: BigNumberish,
+  fees: GasFees,
+  mode: RefundMode = {},
+  refundGas?: BigNumberish,
+  relayer?: string,
+): RefundEstimate => {
+  const intrinsicGas = calculateIntrinsicGas(calldata)
+  const defaultRefundGasOverhead = getDefaultRefundGasOverhead(refundParams.gasToken, refundParams.refundReceiver, relayer)
+  // The contract measures the execution and intrinsic gas exactly, but replaces the gas used by the refund logic with the overhead
+  const refundGasOverhead = mode.refundGasOverhead || defaultRefundGasOverhead
+  const gasConsumed = BigNumber.from(gasUsed)
+    .sub(refundGas === undefined ? defaultRefundGasOverhead : refundGas)
+    .add(refundGasOverhead)
+  const gasLimit = BigNumber.from(refundParams.gasLimit)
+  const refundedGas = gasConsumed.lt(gasLimit) ? gasConsumed : gasLimit
+
+  const effectiveGasPrice = BigNumber.from(fees.baseFeePerGas).add(fees.maxPriorityFeePerGas)
+  const maxFeePerGas = BigNumber.from(refundParams.maxFeePerGas)
+  const signedPayment = refundedGas.mul(maxFeePerGas)
+  const effectivePayment = refundedGas.mul(effectiveGasPrice.lt(maxFeePerGas) ? effectiveGasPrice : maxFeePerGas)
+  // tx.gasprice is in wei, so the contract only pays native refunds at the effective gas price
+  const payment = mode.refundEffectiveGasPrice && refundParams.gasToken === AddressZero ? effectivePayment : signedPayment
+  const executionCost = BigNumber.from(gasUsed).mul(effectiveGasPrice)
+  const profit = payment.sub(executionCost)
+
+  return {
+    intrinsicGas,
+    gasConsumed,
+    refundedGas,
+    payment,
+    signedPayment,
+    effectivePayment,
+    saving: signedPayment.sub(effectivePayment),
+    effectiveGasPrice,
+    executionCost,
+    profit,
+    profitable: !profit.isNegative(),
+  }
+}
+
+// Reads the current fees from the provider, legacy networks without a base fee use the gas price as base fee
+const fetchGasFees = async (provider: providers.Provider): Promise<GasFees> => {
+  const block = await provider.getBlock('latest')
+  if (block.baseFeePerGas) {
+    const feeData = await provider.getFeeData()
+    return { baseFeePerGas: block.baseFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas || 0 }
+  }
+  return { baseFeePerGas: await provider.getGasPrice(), maxPriorityFeePerGas: 0 }
+}
+
+export {
+  TX_BASE_GAS,
+  NATIVE_REFUND_GAS_OVERHEAD,
+  TOKEN_REFUND_GAS_OVERHEAD,
+  WARM_ACCOUNT_ACCESS_DISCOUNT,
+  GasFees,
+  RefundMode,
+  RefundEstimate,
+  calculateIntrinsicGas,
+  getDefaultRefundGasOverhead,
+  estimateRefund,
+  fetchGasFees,
+}
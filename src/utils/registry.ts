@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs'
+import { HashZero } from '@ethersproject/constants'
+import { BigNumber, BigNumberish, utils } from 'ethers'
+
+// Factory used by hardhat-deploy for `deterministicDeployment`, deployed with the same keyless transaction on every chain
+const DETERMINISTIC_DEPLOYMENT_FACTORY = '0x4e59b44847b379578588920ca78fbf26c0b4956c'
+
+interface RegistryEntry {
+  address: string
+  // keccak256 of the creation bytecode, this is the init code hash of the CREATE2 address
+  bytecodeHash: string
+  solcVersion: string
+}
+
+// Deployments of the transaction queue by chainId
+type DeploymentRegistry = Record<string, RegistryEntry>
+
+const calculateDeterministicAddress = (bytecode: string, salt: string = HashZero, factory = DETERMINISTIC_DEPLOYMENT_FACTORY): string =>
+  utils.getCreate2Address(factory, utils.hexZeroPad(salt, 32), utils.keccak256(bytecode))
+
+const readRegistry = async (path: string): Promise<DeploymentRegistry> => JSON.parse(await fs.readFile(path, 'utf8'))
+
+const writeRegistry = async (path: string, registry: DeploymentRegistry): Promise<void> => {
+  await fs.writeFile(path, JSON.stringify(registry, null, 2))
+}
+
+const getRegistryEntry = (registry: DeploymentRegistry, chainId: BigNumberish): RegistryEntry => {
+  const entry = registry[BigNumber.from(chainId).toString()]
+  if (!entry) throw Error(`No deployment of the transaction queue on chain ${chainId}`)
+  return entry
+}
+
+export {
+  DETERMINISTIC_DEPLOYMENT_FACTORY,
+  RegistryEntry,
+  DeploymentRegistry,
+  calculateDeterministicAddress,
+  readRegistry,
+  writeRegistry,
+  getRegistryEntry,
+}
@@ -0,0 +1,30 @@
+import { Contract, utils } from 'ethers'
+import { SIGNATURE_VALIDATOR_ABI } from './abi'
+import { SafeSignature, recoverSignatureSigner } from './execution'
+
+// Returned by `isValidSignature(bytes,bytes)` for valid contract signatures
+const EIP1271_MAGIC_VALUE = '0x20c13b0b'
+
+// Checks a signature like `checkNSignatures` of the Safe and returns the reason if it is not valid.
+// `safe` needs the Safe ABI and `data` is the preimage of the hash that is passed to contract signers
+const checkSafeSignature = async (safe: Contract, hash: string, data: string, signature: SafeSignature): Promise<string | undefined> => {
+  let signer: string
+  try {
+    signer = signature.dynamic ? utils.getAddress(signature.signer) : recoverSignatureSigner(hash, signature.data)
+  } catch {
+    return `Signature of ${signature.signer} could not be recovered`
+  }
+  if (signer.toLowerCase() !== signature.signer.toLowerCase()) return `Signature of ${signature.signer} was signed by ${signer}`
+  if (!(await safe.isOwner(signer))) return `${signer} is not an owner of the Safe`
+  if (signature.dynamic) {
+    const validator = new Contract(signer, SIGNATURE_VALIDATOR_ABI, safe.provider)
+    const result = await validator.isValidSignature(data, signature.data).catch(() => undefined)
+    if (result !== EIP1271_MAGIC_VALUE) return `Contract signature of ${signer} is not valid`
+  } else if (parseInt(signature.data.slice(-2), 16) === 1) {
+    // The queue calls the Safe, so pre-validated signatures are only valid if the owner approved the hash
+    if ((await safe.approvedHashes(signer, hash)).eq(0)) return `${signer} did not approve ${hash}`
+  }
+  return undefined
+}
+
+export { EIP1271_MAGIC_VALUE, checkSafeSignature }
@@ -1,14 +1,59 @@
+import { existsSync, promises as fs } from 'fs'
+import https from 'https'
+import path from 'path'
 import solc from 'solc'
 
 const solcCache: Record<string, any> = {}
 
-export const loadSolc = async (version: string): Promise<any> => {
-  return await new Promise((resolve, reject) => {
-    if (solcCache[version] !== undefined) resolve(solcCache[version])
-    else
-      solc.loadRemoteVersion(`v${version}`, (error: any, soljson: any) => {
-        solcCache[version] = soljson
-        return error ? reject(error) : resolve(soljson)
+// Downloaded compilers are kept here, so later runs work offline. Not in build, which is removed before publishing.
+// Relative to the hardhat project root, so the tasks find the same cache from any working directory
+export const getSolcCacheDir = (root: string): string => path.resolve(root, process.env.SOLC_CACHE_DIR || path.join('cache', 'solc'))
+
+const soljsonFile = (version: string): string => `soljson-v${version}.js`
+
+const download = async (url: string, target: string): Promise<void> => {
+  const content = await new Promise<Buffer>((resolve, reject) => {
+    https
+      .get(url, (response) => {
+        if (response.statusCode !== 200) {
+          response.resume()
+          return reject(Error(`Could not download ${url}: ${response.statusCode} ${response.statusMessage}`))
+        }
+        const chunks: Buffer[] = []
+        response.on('data', (chunk) => chunks.push(chunk))
+        response.on('end', () => resolve(Buffer.concat(chunks)))
       })
+      .on('error', reject)
   })
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  await fs.writeFile(target, content)
+}
+
+// hardhat doesn't export the directory of its compilers, so this depends on an internal module of the pinned hardhat version.
+// If the module moved, only the cache dir and the download are used
+const getHardhatCompilersDir = async (): Promise<string | undefined> => {
+  try {
+    const { getCompilersDir } = require('hardhat/internal/util/global-dir')
+    return await getCompilersDir()
+  } catch {
+    return undefined
+  }
+}
+
+// Looks for the soljson of the version in the cache dir and in the wasm compilers downloaded by hardhat, downloads it into the cache dir otherwise
+export const findSoljson = async (version: string, cacheDir: string): Promise<string> => {
+  const cached = path.resolve(cacheDir, soljsonFile(version))
+  if (existsSync(cached)) return cached
+  const hardhatCompilersDir = await getHardhatCompilersDir()
+  const hardhatCompiler = hardhatCompilersDir && path.join(hardhatCompilersDir, 'wasm', soljsonFile(version))
+  if (hardhatCompiler && existsSync(hardhatCompiler)) return hardhatCompiler
+  await download(`https://binaries.soliditylang.org/bin/${soljsonFile(version)}`, cached)
+  return cached
+}
+
+export const loadSolc = async (version: string, cacheDir: string): Promise<any> => {
+  if (solcCache[version] === undefined) {
+    solcCache[version] = solc.setupMethods(require(await findSoljson(version, cacheDir)))
+  }
+  return solcCache[version]
 }
@@ -0,0 +1,59 @@
+import { utils } from 'ethers'
+
+// Byte ranges of immutables in the deployed bytecode, as reported by solc in `evm.deployedBytecode.immutableReferences`
+type ImmutableReferences = Record<string, { start: number; length: number }[]>
+
+type VerificationStatus = 'SUCCESS' | 'FAILURE'
+
+interface VerificationResult {
+  status: VerificationStatus
+  reason?: string
+}
+
+// Replaces the immutables with zeros, like they are in the compiled bytecode
+const maskImmutables = (code: string, immutableReferences: ImmutableReferences = {}): string => {
+  const bytes = utils.arrayify(code)
+  for (const id of Object.keys(immutableReferences)) {
+    for (const { start, length } of immutableReferences[id]) bytes.fill(0, start, start + length)
+  }
+  return utils.hexlify(bytes)
+}
+
+// solc appends the CBOR encoded metadata (including the metadata hash) followed by its length as 2 bytes
+const stripMetadata = (code: string): string => {
+  const bytes = utils.arrayify(code)
+  if (bytes.length < 2) return code
+  const metadataLength = (bytes[bytes.length - 2] << 8) + bytes[bytes.length - 1] + 2
+  if (metadataLength > bytes.length) return code
+  return utils.hexlify(bytes.slice(0, bytes.length - metadataLength))
+}
+
+const countImmutables = (immutableReferences: ImmutableReferences = {}): number =>
+  Object.keys(immutableReferences).reduce((count, id) => count + immutableReferences[id].length, 0)
+
+const compareBytecode = (onChainCode: string, compiledCode: string, immutableReferences?: ImmutableReferences): VerificationResult => {
+  if (utils.hexDataLength(onChainCode) === 0) return { status: 'FAILURE', reason: 'No code at the address of the deployment' }
+  if (utils.hexDataLength(onChainCode) !== utils.hexDataLength(compiledCode)) {
+    return {
+      status: 'FAILURE',
+      reason: `On chain code has ${utils.hexDataLength(onChainCode)} bytes, compiled code has ${utils.hexDataLength(compiledCode)} bytes`,
+    }
+  }
+  const maskedCode = maskImmutables(onChainCode, immutableReferences).toLowerCase()
+  const immutables = countImmutables(immutableReferences)
+  if (maskedCode === compiledCode.toLowerCase()) {
+    return immutables > 0
+      ? { status: 'SUCCESS', reason: `Ignored ${immutables} immutable references set in the constructor` }
+      : { status: 'SUCCESS' }
+  }
+  if (stripMetadata(maskedCode) === stripMetadata(compiledCode.toLowerCase())) {
+    return {
+      status: 'FAILURE',
+      reason:
+        'Only the metadata hash differs, the deployment was compiled from other source files (e.g. changed comments or paths) or settings',
+    }
+  }
+  return { status: 'FAILURE', reason: 'Code differs from the compiled code' }
+}
+
+export { ImmutableReferences, VerificationStatus, VerificationResult, maskImmutables, stripMetadata, compareBytecode }
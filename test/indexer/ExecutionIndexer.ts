@@ -0,0 +1,198 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import { providers } from 'ethers'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTestToken, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { ExecutionIndexer } from '../../src/indexer/indexer'
+import { ExecutionStore } from '../../src/indexer/store'
+
+describe('ExecutionIndexer', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const otherSafe = await getTestSafe(user1, transactionQueueInstance.address)
+    const token = await getTestToken(user1)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+    const relayerClient = await TransactionQueueClient.connect(transactionQueueInstance.address, user3)
+
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+    await token.transfer(safe.address, await token.balanceOf(user1.address))
+    await setRefundConditions(client, safe.address, user1, [AddressZero, token.address], 10000000000, 500000)
+
+    return {
+      safe,
+      otherSafe,
+      token,
+      client,
+      relayerClient,
+    }
+  })
+
+  const executeWithRefund = async (client: TransactionQueueClient, safe: string, gasToken: string, refundReceiver: string) => {
+    const safeTx = await client.propose(safe, user1.address, 0, '0x', 0)
+    const refundParams = client.buildRefundParams(safeTx, gasToken, 150000, 1000000000, refundReceiver)
+    return client.executeWithRefund(
+      safeTx,
+      [await client.signTransaction(user1, safeTx)],
+      refundParams,
+      await client.signRefundParams(user1, refundParams),
+      { gasLimit: 1000000 },
+    )
+  }
+
+  it('should join executions with the decoded calldata', async () => {
+    const { safe, otherSafe, client, relayerClient } = await setupTests()
+    const safeTx = await client.propose(otherSafe.address, user3.address, 0, '0xbaddad', 0)
+    await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+    const { safeTxHash, payment, receipt } = await executeWithRefund(relayerClient, safe.address, AddressZero, AddressZero)
+    const indexer = new ExecutionIndexer(client, new ExecutionStore())
+
+    await indexer.sync()
+
+    const [executed] = indexer.store.getSafeHistory(otherSafe.address)
+    expect(executed).to.deep.include({
+      safeTxHash: client.getTransactionHash(safeTx),
+      payment: '0',
+      relayer: user2.address,
+      safe: otherSafe.address,
+      to: user3.address,
+      value: '0',
+      operation: 0,
+      nonce: '0',
+    })
+    expect(executed.gasToken).to.be.undefined
+    const [, , refunded] = indexer.store.getSafeHistory(safe.address)
+    expect(refunded.safeTxHash).to.eq(safeTxHash)
+    expect(refunded.transactionHash).to.eq(receipt.transactionHash)
+    expect(refunded.payment).to.eq(payment.toString())
+    expect(refunded.nonce).to.eq('2')
+    expect(refunded.relayer).to.eq(user3.address)
+    expect(refunded.gasToken).to.eq(AddressZero)
+    expect(refunded.refundReceiver).to.eq(user3.address)
+  })
+
+  it('should leave the nonce undefined if the state before the block is not available', async () => {
+    const { otherSafe, client } = await setupTests()
+    const safeTx = await client.propose(otherSafe.address, user3.address, 0, '0x', 0)
+    await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+    // Nodes without archive state can only be called at recent blocks
+    class PrunedProvider extends providers.Web3Provider {
+      async call(transaction: any, blockTag?: any): Promise<string> {
+        if (blockTag !== undefined) throw Error('missing trie node')
+        return super.call(transaction, blockTag)
+      }
+    }
+    const prunedClient = new TransactionQueueClient(client.address, client.chainId, new PrunedProvider(hre.network.provider as any))
+    const indexer = new ExecutionIndexer(prunedClient, new ExecutionStore())
+
+    await indexer.sync()
+
+    const [executed] = indexer.store.getSafeHistory(otherSafe.address)
+    expect(executed.safeTxHash).to.eq(client.getTransactionHash(safeTx))
+    expect(executed.nonce).to.be.undefined
+  })
+
+  it('should sum the refunds per token and per relayer', async () => {
+    const { safe, token, client, relayerClient } = await setupTests()
+    const payments = [
+      await executeWithRefund(relayerClient, safe.address, AddressZero, AddressZero),
+      await executeWithRefund(client, safe.address, AddressZero, AddressZero),
+      await executeWithRefund(relayerClient, safe.address, token.address, user3.address),
+      await executeWithRefund(client, safe.address, token.address, user3.address),
+    ].map(({ payment }) => payment)
+    const indexer = new ExecutionIndexer(client, new ExecutionStore())
+
+    await indexer.sync()
+
+    expect(indexer.store.getRefundsPerToken()).to.deep.eq({
+      [AddressZero]: payments[0].add(payments[1]).toString(),
+      [token.address]: payments[2].add(payments[3]).toString(),
+    })
+    expect(indexer.store.getRefundsPerRelayer(AddressZero)).to.deep.eq({
+      [user3.address]: payments[0].toString(),
+      [user2.address]: payments[1].toString(),
+    })
+    expect(indexer.store.getRefundsPerRelayer(token.address)).to.deep.eq({
+      [user3.address]: payments[2].add(payments[3]).toString(),
+    })
+  })
+
+  it('should continue from the last indexed block', async () => {
+    const { safe, client, relayerClient } = await setupTests()
+    const indexer = new ExecutionIndexer(client, new ExecutionStore())
+    expect(await indexer.sync()).to.have.length(2)
+
+    const { safeTxHash } = await executeWithRefund(relayerClient, safe.address, AddressZero, AddressZero)
+    const records = await indexer.sync()
+
+    expect(records.map((r) => r.safeTxHash)).to.deep.eq([safeTxHash])
+    expect(indexer.store.getRecords()).to.have.length(3)
+  })
+
+  it('should remove executions of reorged blocks', async () => {
+    const { safe, client, relayerClient } = await setupTests()
+    const indexer = new ExecutionIndexer(client, new ExecutionStore())
+    await indexer.sync()
+    const snapshot = await hre.network.provider.send('evm_snapshot')
+
+    await executeWithRefund(relayerClient, safe.address, AddressZero, AddressZero)
+    await indexer.sync()
+    expect(indexer.store.getRecords()).to.have.length(3)
+
+    await hre.network.provider.send('evm_revert', [snapshot])
+    await hre.network.provider.send('hardhat_mine', ['0x2'])
+    const records = await indexer.sync()
+
+    expect(records).to.deep.eq([])
+    expect(indexer.store.getRecords()).to.have.length(2)
+    expect(indexer.store.lastBlock).to.eq(await hre.ethers.provider.getBlockNumber())
+  })
+
+  it('should follow new blocks', async () => {
+    const { safe, client, relayerClient } = await setupTests()
+    const indexer = new ExecutionIndexer(client, new ExecutionStore())
+    await indexer.sync()
+    waffle.provider.pollingInterval = 100
+
+    const followed = new Promise<string[]>((resolve, reject) => {
+      const stop = indexer.follow(
+        (records) => {
+          stop()
+          resolve(records.map((r) => r.safeTxHash))
+        },
+        (error) => {
+          stop()
+          reject(error)
+        },
+      )
+    })
+    const { safeTxHash } = await executeWithRefund(relayerClient, safe.address, AddressZero, AddressZero)
+
+    expect(await followed).to.deep.eq([safeTxHash])
+  })
+
+  it('should save and load the store', async () => {
+    const { client } = await setupTests()
+    const file = path.join(os.tmpdir(), `executions-${Date.now()}.json`)
+    const indexer = new ExecutionIndexer(client, new ExecutionStore())
+    await indexer.sync()
+    await indexer.store.save(file)
+
+    const loaded = await ExecutionStore.load(file)
+    await fs.unlink(file)
+
+    expect(loaded.getRecords()).to.deep.eq(indexer.store.getRecords())
+    expect(loaded.lastBlock).to.eq(indexer.store.lastBlock)
+    expect(await new ExecutionIndexer(client, loaded).sync()).to.deep.eq([])
+  })
+})
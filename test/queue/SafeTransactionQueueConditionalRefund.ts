@@ -1,9 +1,9 @@
-import { BigNumber } from 'ethers'
+import { BigNumber, Contract, ContractReceipt } from 'ethers'
 import { AddressZero } from '@ethersproject/constants'
 import { expect } from 'chai'
 import hre, { deployments, waffle } from 'hardhat'
 import '@nomiclabs/hardhat-ethers'
-import { deployContract, getTestSafe, getTransactionQueueInstance } from '../utils/setup'
+import { deployContract, getTestGnosisSafe, getTestGuard, getTestSafe, getTransactionQueueInstance } from '../utils/setup'
 import {
   calculateSafeTransactionHash,
   buildSafeTransaction,
@@ -23,16 +23,17 @@ import { parseEther } from '@ethersproject/units'
 import { chainId } from '../utils/encoding'
 
 describe('SafeTransactionQueueConditionalRefund', async () => {
-  const [user1, user2] = waffle.provider.getWallets()
+  const [user1, user2, user3] = waffle.provider.getWallets()
 
-  const setupTests = deployments.createFixture(async ({ deployments }) => {
-    await deployments.fixture()
+  const createSetup = (deploySafe: (moduleAddr: string) => Promise<Contract>) =>
+    deployments.createFixture(async ({ deployments }) => {
+      await deployments.fixture()
 
-    const transactionQueueInstance = await getTransactionQueueInstance()
+      const transactionQueueInstance = await getTransactionQueueInstance()
 
-    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+      const safe = await deploySafe(transactionQueueInstance.address)
 
-    const setterSource = `
+      const setterSource = `
         contract StorageSetter {
             function setStorage(uint256 numba) public {
                 bytes32 slot = 0x7373737373737373737373737373737373737373737373737373737373737373;
@@ -41,22 +42,46 @@ describe('SafeTransactionQueueConditionalRefund', async () => {
                 }
             }
         }`
-    const storageSetter = await deployContract(user1, setterSource)
-    const revertorSource = `
+      const storageSetter = await deployContract(user1, setterSource)
+      const revertorSource = `
         contract Revertooor {
             function setStorage(uint256 numba) public {
                 require(false, "Revert me!");
             }
         }`
-    const revertooor = await deployContract(user1, revertorSource)
+      const revertooor = await deployContract(user1, revertorSource)
 
-    return {
-      safe,
-      transactionQueueInstance,
-      storageSetter,
-      revertooor,
-    }
-  })
+      return {
+        safe,
+        transactionQueueInstance,
+        storageSetter,
+        revertooor,
+      }
+    })
+
+  const setupTests = createSetup((moduleAddr) => getTestSafe(user1, moduleAddr))
+
+  // The execution suites run against the mock and a Safe with multiple owners, the errors of the Safe are documented in SAFE_ERROR_CODES
+  const SAFE_SETUPS = [
+    {
+      name: 'GnosisSafeMock',
+      deploySafe: (moduleAddr: string) => getTestSafe(user1, moduleAddr),
+      signers: [user1],
+      errors: { signaturesTooShort: 'GnosisSafeMock: Invalid signature', invalidOwner: 'GnosisSafeMock: Invalid signature' },
+    },
+    {
+      name: 'GnosisSafe with 3 owners and threshold 2',
+      deploySafe: (moduleAddr: string) => getTestGnosisSafe(user1, [user1.address, user2.address, user3.address], 2, moduleAddr),
+      signers: [user1, user2],
+      errors: { signaturesTooShort: 'GS020', invalidOwner: 'GS026' },
+    },
+  ]
+
+  const getSuccessfulExecution = (receipt: ContractReceipt) => {
+    const event = receipt.events?.find((e) => e.event === 'SuccessfulExecution')
+    if (!event?.args) throw Error('SuccessfulExecution event not found')
+    return event.args
+  }
 
   describe('getTransactionHash', () => {
     it('should correctly calculate EIP-712 hash of the transaction', async () => {
@@ -99,8 +124,8 @@ describe('SafeTransactionQueueConditionalRefund', async () => {
         safeTransaction.to,
         safeTransaction.value,
         safeTransaction.data,
-        safeTransaction.nonce,
         safeTransaction.operation,
+        safeTransaction.nonce,
       )
       const refundParamsHash = await transactionQueueInstance.getRefundParamsHash(
         transactionHash,
@@ -108,12 +133,20 @@ describe('SafeTransactionQueueConditionalRefund', async () => {
         1000000,
         1000000,
         user1.address,
+        1700000000,
       )
 
       expect(refundParamsHash).to.eq(
         calculateRefundParamsHash(
           transactionQueueInstance,
-          { safeTxHash: transactionHash, gasToken: AddressZero, maxFeePerGas: 1000000, gasLimit: 1000000, refundReceiver: user1.address },
+          {
+            safeTxHash: transactionHash,
+            gasToken: AddressZero,
+            maxFeePerGas: 1000000,
+            gasLimit: 1000000,
+            refundReceiver: user1.address,
+            validUntil: 1700000000,
+          },
           await chainId(),
         ),
       )
@@ -150,627 +183,1086 @@ describe('SafeTransactionQueueConditionalRefund', async () => {
       expect(refundConditionToken.maxGasLimit).to.equal('10000000')
       expect(refundConditionToken.allowedRefundReceiversCount).to.equal(1)
     })
-  })
 
-  describe('execTransaction', () => {
-    it('should revert if signature data is not present', async () => {
+    it('replaces the refund receiver allowlist', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
+      const tokenAddress = `0x${'42'.repeat(20)}`
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
-
-      await expect(executeTx(transactionQueueInstance, safeTransaction, [{ signer: user1.address, data: '0x' }])).to.be.revertedWith(
-        'GnosisSafeMock: Invalid signature',
+      await executeContractCallWithSigners(
+        transactionQueueInstance,
+        transactionQueueInstance,
+        'setRefundConditions',
+        [tokenAddress, 10000000000, 10000000, [user1.address, user2.address]],
+        [user1],
+        { safe: safe.address, nonce: '0', value: '0', operation: 0 },
       )
-    })
-
-    it('should revert if signatures are invalid', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
+      expect(await transactionQueueInstance.getRefundReceivers(safe.address, tokenAddress)).to.deep.eq([user1.address, user2.address])
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
-
-      // The mock only supports ECDSA signatures with eth_sign/eip191
-      const signature =
-        '0x' +
-        '000000000000000000000000' +
-        user1.address.slice(2) +
-        '0000000000000000000000000000000000000000000000000000000000000041' +
-        '00' // r, s, v
-
-      await expect(executeTx(transactionQueueInstance, safeTransaction, [{ signer: user1.address, data: signature }])).to.be.revertedWith(
-        'GnosisSafeMock: Invalid signature',
+      await executeContractCallWithSigners(
+        transactionQueueInstance,
+        transactionQueueInstance,
+        'setRefundConditions',
+        [tokenAddress, 10000000000, 10000000, [user2.address, user3.address]],
+        [user1],
+        { safe: safe.address, nonce: '1', value: '0', operation: 0 },
       )
-    })
-
-    it("should revert if the signed nonce doesn't match current safe nonce", async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '1')
-
-      const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
 
-      // The mock only supports ECDSA signatures with eth_sign/eip191
-      const signature = await signHash(user1, transactionHash)
-
-      await expect(executeTx(transactionQueueInstance, safeTransaction, [signature])).to.be.revertedWith(
-        'GnosisSafeMock: Invalid signature',
-      )
+      expect(await transactionQueueInstance.getRefundReceivers(safe.address, tokenAddress)).to.deep.eq([user2.address, user3.address])
+      expect(await transactionQueueInstance.isAllowedRefundReceiver(safe.address, tokenAddress, user1.address)).to.eq(false)
+      expect(await transactionQueueInstance.isAllowedRefundReceiver(safe.address, tokenAddress, user2.address)).to.eq(true)
+      expect(await transactionQueueInstance.isAllowedRefundReceiver(safe.address, tokenAddress, user3.address)).to.eq(true)
+      expect((await transactionQueueInstance.safeRefundConditions(safe.address, tokenAddress)).allowedRefundReceiversCount).to.eq(2)
     })
 
-    it('should increase the nonce', async () => {
+    it('allows every refund receiver after the allowlist was cleared', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
+      const tokenAddress = `0x${'42'.repeat(20)}`
 
-      expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(0)
-
-      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
-
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '0')
-      const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-
-      // The mock only supports ECDSA signatures with eth_sign/eip191
-      const signature = await signHash(user1, transactionHash)
+      await executeContractCallWithSigners(
+        transactionQueueInstance,
+        transactionQueueInstance,
+        'setRefundConditions',
+        [tokenAddress, 10000000000, 10000000, [user2.address]],
+        [user1],
+        { safe: safe.address, nonce: '0', value: '0', operation: 0 },
+      )
+      expect(await transactionQueueInstance.isAllowedRefundReceiver(safe.address, tokenAddress, user1.address)).to.eq(false)
 
-      await executeTx(transactionQueueInstance, safeTransaction, [signature])
+      await executeContractCallWithSigners(
+        transactionQueueInstance,
+        transactionQueueInstance,
+        'setRefundConditions',
+        [tokenAddress, 10000000000, 10000000, []],
+        [user1],
+        { safe: safe.address, nonce: '1', value: '0', operation: 0 },
+      )
 
-      expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(1)
+      expect(await transactionQueueInstance.getRefundReceivers(safe.address, tokenAddress)).to.deep.eq([])
+      expect(await transactionQueueInstance.isAllowedRefundReceiver(safe.address, tokenAddress, user1.address)).to.eq(true)
+      expect((await transactionQueueInstance.safeRefundConditions(safe.address, tokenAddress)).allowedRefundReceiversCount).to.eq(0)
     })
 
-    it('should execute native token transfers', async () => {
+    it('ignores duplicate refund receivers and emits RefundConditionsChanged', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-
-      expect(await provider.getBalance(safe.address)).to.eq(0)
-      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
-      expect(await provider.getBalance(safe.address)).to.eq(parseEther('1'))
-
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '0')
-      const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-
-      // The mock only supports ECDSA signatures with eth_sign/eip191
-      const signature = await signHash(user1, transactionHash)
-
-      // Connect to user2, so user1 doesnt spend gas to send the transaction and we get more accurate balance calculations
-      const queueWithUser2 = transactionQueueInstance.connect(user2)
-      const balanceBeforeTransfer = await provider.getBalance(user1.address)
-      await executeTx(queueWithUser2, safeTransaction, [signature])
-      const balanceAfterTransfer = await provider.getBalance(user1.address)
-
-      expect(balanceAfterTransfer).to.eq(balanceBeforeTransfer.add(parseEther('1')))
-    })
-
-    it('should execute contract calls', async () => {
-      const { safe, transactionQueueInstance, storageSetter } = await setupTests()
-      const provider = hre.ethers.provider
-
-      expect(
-        await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
-      ).to.eq(`0x${'0'.repeat(64)}`)
-
-      const setStorageTx = buildContractCall(safe.address, storageSetter, 'setStorage', [543], {
-        operation: 0,
-      })
+      const tokenAddress = `0x${'42'.repeat(20)}`
 
-      await executeTxWithSigners(transactionQueueInstance, setStorageTx, [user1])
+      await expect(
+        executeContractCallWithSigners(
+          transactionQueueInstance,
+          transactionQueueInstance,
+          'setRefundConditions',
+          [tokenAddress, 10000000000, 10000000, [user2.address, user2.address]],
+          [user1],
+          { safe: safe.address, nonce: '0', value: '0', operation: 0 },
+        ),
+      )
+        .to.emit(transactionQueueInstance, 'RefundConditionsChanged')
+        .withArgs(safe.address, tokenAddress, 10000000000, 10000000, [user2.address])
 
-      const num = 543
-      const hex543 = num.toString(16)
-      expect(
-        await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
-      ).to.eq(`0x${hex543.padStart(64, '0')}`)
+      expect(await transactionQueueInstance.getRefundReceivers(safe.address, tokenAddress)).to.deep.eq([user2.address])
+      expect((await transactionQueueInstance.safeRefundConditions(safe.address, tokenAddress)).allowedRefundReceiversCount).to.eq(1)
     })
 
-    it('should execute delegatecall calls', async () => {
-      const { safe, transactionQueueInstance, storageSetter } = await setupTests()
-      const provider = hre.ethers.provider
+    it('sets the effective gas price refund mode and emits EffectiveGasPriceRefundChanged', async () => {
+      const { safe, transactionQueueInstance } = await setupTests()
 
-      expect(await provider.getStorageAt(safe.address, '0x7373737373737373737373737373737373737373737373737373737373737373')).to.eq(
-        `0x${'0'.repeat(64)}`,
+      await expect(
+        executeContractCallWithSigners(
+          transactionQueueInstance,
+          transactionQueueInstance,
+          'setEffectiveGasPriceRefund',
+          [AddressZero, true],
+          [user1],
+          {
+            safe: safe.address,
+            nonce: '0',
+            value: '0',
+            operation: 0,
+          },
+        ),
       )
+        .to.emit(transactionQueueInstance, 'EffectiveGasPriceRefundChanged')
+        .withArgs(safe.address, AddressZero, true)
 
-      const setStorageTx = buildContractCall(safe.address, storageSetter, 'setStorage', [543], {
-        operation: 1,
-      })
-
-      const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, setStorageTx, await chainId())
-
-      // The mock only supports ECDSA signatures with eth_sign/eip191
-      const signature = await signHash(user1, transactionHash)
+      const refundCondition = await transactionQueueInstance.safeRefundConditions(safe.address, AddressZero)
+      expect(refundCondition.refundEffectiveGasPrice).to.eq(true)
+      expect(refundCondition.maxFeePerGas).to.eq(0)
+    })
 
-      await executeTx(transactionQueueInstance, setStorageTx, [signature])
+    it('reverts if the effective gas price refund mode is enabled for a token', async () => {
+      const { transactionQueueInstance } = await setupTests()
+      const tokenAddress = `0x${'42'.repeat(20)}`
 
-      const num = 543
-      const hex543 = num.toString(16)
-      expect(await provider.getStorageAt(safe.address, '0x7373737373737373737373737373737373737373737373737373737373737373')).to.eq(
-        `0x${hex543.padStart(64, '0')}`,
+      await expect(transactionQueueInstance.connect(user1).setEffectiveGasPriceRefund(tokenAddress, true)).to.be.revertedWith(
+        'InvalidEffectiveGasPriceRefund()',
       )
+      await expect(transactionQueueInstance.connect(user1).setEffectiveGasPriceRefund(tokenAddress, false))
+        .to.emit(transactionQueueInstance, 'EffectiveGasPriceRefundChanged')
+        .withArgs(user1.address, tokenAddress, false)
     })
-  })
 
-  describe('execTransactionWithRefund', () => {
-    it('should revert if transaction signature data is not present', async () => {
+    it('sets the refund gas overhead and emits RefundGasOverheadChanged', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const emptyTxSig = {
-        signer: user1.address,
-        data: '0x',
-      }
-      const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
-      const refundParamsSignature = await signRefundParamsTypedData(user1, transactionQueueInstance, refundParams)
-
       await expect(
-        executeTxWithRefund(transactionQueueInstance, safeTransaction, [emptyTxSig], refundParams, refundParamsSignature),
-      ).to.be.revertedWith('GnosisSafeMock: Invalid signature')
-    })
-
-    it('should revert if transaction signatures are invalid', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const differentTxSig = await queueSignTypedData(
-        user1,
-        transactionQueueInstance,
-        buildSafeTransaction(safe.address, user2.address, '2000000000000000000', '0x', 0, '0'),
+        executeContractCallWithSigners(
+          transactionQueueInstance,
+          transactionQueueInstance,
+          'setRefundGasOverhead',
+          [AddressZero, 60000],
+          [user1],
+          {
+            safe: safe.address,
+            nonce: '0',
+            value: '0',
+            operation: 0,
+          },
+        ),
       )
-      const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
-      const refundParamsSignature = await signRefundParamsTypedData(user1, transactionQueueInstance, refundParams)
+        .to.emit(transactionQueueInstance, 'RefundGasOverheadChanged')
+        .withArgs(safe.address, AddressZero, 60000)
 
-      await expect(
-        executeTxWithRefund(transactionQueueInstance, safeTransaction, [differentTxSig], refundParams, refundParamsSignature),
-      ).to.be.revertedWith('GnosisSafeMock: Invalid signature')
+      expect((await transactionQueueInstance.safeRefundConditions(safe.address, AddressZero)).refundGasOverhead).to.eq(60000)
     })
+  })
 
-    it("should revert if the transaction nonce doesn't match current safe nonce", async () => {
+  describe('invalidateNonces', () => {
+    it('sets the nonce of the safe and emits NoncesInvalidated', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
-
       await expect(
-        executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1),
-      ).to.be.revertedWith('GnosisSafeMock: Invalid signature')
+        executeContractCallWithSigners(transactionQueueInstance, transactionQueueInstance, 'invalidateNonces', [5], [user1], {
+          safe: safe.address,
+          nonce: '0',
+          value: '0',
+          operation: 0,
+        }),
+      )
+        .to.emit(transactionQueueInstance, 'NoncesInvalidated')
+        .withArgs(safe.address, 1, 5)
+
+      expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(5)
     })
 
-    it('should revert if refund message signature has different transaction hash', async () => {
+    it('should not execute transactions signed for an invalidated nonce', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
 
-      await user1.sendTransaction({ to: safe.address, value: parseEther('1.5') })
-
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
-      const refundParams = buildRefundParams(`0x${'0'.repeat(64)}`, AddressZero, 500000, 10000000000, user1.address)
+      await executeContractCallWithSigners(transactionQueueInstance, transactionQueueInstance, 'invalidateNonces', [2], [user1], {
+        safe: safe.address,
+        nonce: '0',
+        value: '0',
+        operation: 0,
+      })
 
-      await expect(
-        executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1),
-      ).to.be.revertedWith('GnosisSafeMock: Invalid signature')
+      const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '1')
+      await expect(executeTxWithSigners(transactionQueueInstance, safeTransaction, [user1])).to.be.revertedWith(
+        'GnosisSafeMock: Invalid signature',
+      )
     })
 
-    it('should revert if refund message signature is not present', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
+    it('should revert if the nonce is not greater than the current nonce', async () => {
+      const { transactionQueueInstance } = await setupTests()
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const differentTxSig = await queueSignTypedData(user1, transactionQueueInstance, safeTransaction)
-      const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
-      const refundParamsSignature = {
-        signer: user1.address,
-        data: '0x',
-      }
+      await transactionQueueInstance.connect(user1).invalidateNonces(3)
 
-      await expect(
-        executeTxWithRefund(transactionQueueInstance, safeTransaction, [differentTxSig], refundParams, refundParamsSignature),
-      ).to.be.revertedWith('GnosisSafeMock: Invalid signature')
+      await expect(transactionQueueInstance.connect(user1).invalidateNonces(3)).to.be.revertedWith('InvalidNonce()')
+      await expect(transactionQueueInstance.connect(user1).invalidateNonces(2)).to.be.revertedWith('InvalidNonce()')
+      expect(await transactionQueueInstance.safeNonces(user1.address)).to.eq(3)
     })
+  })
 
-    it('should revert if supplied gas is less than signed gas limit', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-
-      expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(0)
-      await user1.sendTransaction({ to: safe.address, value: parseEther('1.5') })
+  describe('guard', () => {
+    const enableGuardChecks = async (safe: Contract, transactionQueueInstance: Contract, nonce: string) => {
+      const guard = await getTestGuard(user1)
+      await safe.setGuard(guard.address)
+      await executeContractCallWithSigners(transactionQueueInstance, transactionQueueInstance, 'setGuardChecks', [true], [user1], {
+        safe: safe.address,
+        nonce,
+        value: '0',
+        operation: 0,
+      })
+      return guard
+    }
 
+    const setNativeRefundConditions = async (safe: Contract, transactionQueueInstance: Contract) => {
+      await user1.sendTransaction({ to: safe.address, value: BigNumber.from('10000000000').mul('150000') })
       await executeContractCallWithSigners(
         transactionQueueInstance,
         transactionQueueInstance,
         'setRefundConditions',
         [AddressZero, 10000000000, 10000000, []],
         [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
+        { safe: safe.address, nonce: '0', value: '0', operation: 0 },
       )
+    }
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
-
-      await expect(
-        executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1, { gasLimit: 300000 }),
-      ).to.be.revertedWith('NotEnoughGas')
-    })
-
-    it('should increase the nonce', async () => {
+    it('sets the guard checks and emits GuardChecksChanged', async () => {
       const { safe, transactionQueueInstance } = await setupTests()
+      const guard = await getTestGuard(user1)
+      await safe.setGuard(guard.address)
+      expect(await transactionQueueInstance.getActiveGuard(safe.address)).to.eq(AddressZero)
 
-      expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(0)
-      await user1.sendTransaction({ to: safe.address, value: parseEther('1.5') })
-
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
+      await expect(
+        executeContractCallWithSigners(transactionQueueInstance, transactionQueueInstance, 'setGuardChecks', [true], [user1], {
           safe: safe.address,
           nonce: '0',
           value: '0',
           operation: 0,
-        },
+        }),
       )
+        .to.emit(transactionQueueInstance, 'GuardChecksChanged')
+        .withArgs(safe.address, true)
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
-
-      await executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1)
-
-      expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(2)
+      expect(await transactionQueueInstance.safeGuardChecks(safe.address)).to.be.true
+      expect(await transactionQueueInstance.getActiveGuard(safe.address)).to.eq(guard.address)
     })
 
-    it('should execute native token transfers', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-      const transferAmountWei = parseEther('1.5')
-      const maxGasRefund = BigNumber.from('10000000000').mul('120000')
-
-      await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
-      expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+    it('should not call the guard if guard checks are disabled', async () => {
+      const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+      const guard = await getTestGuard(user1)
+      await safe.setGuard(guard.address)
+      await guard.setBlockedTarget(storageSetter.address)
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
+      await expect(
+        executeContractCallWithSigners(transactionQueueInstance, storageSetter, 'setStorage', [73], [user1], {
           safe: safe.address,
           nonce: '0',
           value: '0',
           operation: 0,
-        },
-      )
+        }),
+      ).to.not.emit(guard, 'TransactionChecked')
+    })
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
+    it('should call the guard before and after execTransaction', async () => {
+      const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+      const guard = await enableGuardChecks(safe, transactionQueueInstance, '0')
 
-      const userBalanceBeforeTransfer = await provider.getBalance(user1.address)
-      const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
-      await executeTxWithSignersAndRefund(queueConnectedToUser2, safeTransaction, [user1], refundParams, user1)
-      const userBalanceAfterTransfer = await provider.getBalance(user1.address)
+      const safeTransaction = buildContractCall(safe.address, storageSetter, 'setStorage', [73], { nonce: '1' })
+      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+      const tx = await executeTxWithSigners(transactionQueueInstance, safeTransaction, [user1])
 
-      expect(userBalanceAfterTransfer.sub(userBalanceBeforeTransfer)).to.eq(transferAmountWei)
+      await expect(tx)
+        .to.emit(guard, 'TransactionChecked')
+        .withArgs(storageSetter.address, 0, safeTransaction.data, 0, 0, AddressZero, AddressZero, user1.address)
+      await expect(tx).to.emit(guard, 'ExecutionChecked').withArgs(txHash, true)
     })
 
-    it('should execute contract calls', async () => {
+    it('should pass the refund params to the guard in execTransactionWithRefund', async () => {
       const { safe, transactionQueueInstance, storageSetter } = await setupTests()
-      const provider = hre.ethers.provider
-      const maxGasRefund = BigNumber.from('10000000000').mul('150000')
+      await setNativeRefundConditions(safe, transactionQueueInstance)
+      const guard = await enableGuardChecks(safe, transactionQueueInstance, '1')
 
-      await user1.sendTransaction({ to: safe.address, value: maxGasRefund })
+      const safeTransaction = buildContractCall(safe.address, storageSetter, 'setStorage', [73], { nonce: '2' })
+      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+      const refundParams = buildRefundParams(txHash, AddressZero, 150000, 10000000000, user2.address)
+      const tx = await executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1)
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+      await expect(tx)
+        .to.emit(guard, 'TransactionChecked')
+        .withArgs(storageSetter.address, 0, safeTransaction.data, 0, 10000000000, AddressZero, user2.address, user1.address)
+      await expect(tx).to.emit(guard, 'ExecutionChecked').withArgs(txHash, true)
+    })
 
-      expect(
-        await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
-      ).to.eq(`0x${'0'.repeat(64)}`)
+    it('should revert if the guard rejects the transaction', async () => {
+      const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+      const guard = await enableGuardChecks(safe, transactionQueueInstance, '0')
+      await guard.setBlockedTarget(storageSetter.address)
 
-      const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
-      const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
-      await executeContractCallWithSigners(
-        queueConnectedToUser2,
-        storageSetter,
-        'setStorage',
-        [73],
-        [user1],
-        {
+      await expect(
+        executeContractCallWithSigners(transactionQueueInstance, storageSetter, 'setStorage', [73], [user1], {
           safe: safe.address,
           nonce: '1',
           value: '0',
           operation: 0,
-        },
-        refundParams,
-        user1,
-      )
-      const num = 73
-      const hex73 = num.toString(16)
-      expect(
-        await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
-      ).to.eq(`0x${hex73.padStart(64, '0')}`)
+        }),
+      ).to.be.revertedWith('TestGuard: Blocked target')
     })
 
-    it('should execute delegate calls', async () => {
-      const { safe, transactionQueueInstance, storageSetter } = await setupTests()
-      const provider = hre.ethers.provider
-      const maxGasRefund = BigNumber.from('10000000000').mul('150000')
+    it('should revert if the guard rejects the execution result', async () => {
+      const { safe, transactionQueueInstance, revertooor } = await setupTests()
+      await setNativeRefundConditions(safe, transactionQueueInstance)
+      const guard = await enableGuardChecks(safe, transactionQueueInstance, '1')
+      await guard.setRejectFailedExecutions(true)
 
-      await user1.sendTransaction({ to: safe.address, value: maxGasRefund })
+      const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
+      await expect(
+        executeContractCallWithSigners(
+          transactionQueueInstance,
+          revertooor,
+          'setStorage',
+          [73],
+          [user1],
+          { safe: safe.address, nonce: '2', value: '0', operation: 0 },
+          refundParams,
+          user1,
+        ),
+      ).to.be.revertedWith('TestGuard: Failed execution')
+    })
+  })
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+  for (const safeSetup of SAFE_SETUPS) {
+    describe(`with ${safeSetup.name}`, () => {
+      const signers = safeSetup.signers
+      const setupTests = createSetup(safeSetup.deploySafe)
 
-      expect(
-        await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
-      ).to.eq(`0x${'0'.repeat(64)}`)
+      describe('execTransaction', () => {
+        it('should revert if signature data is not present', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
 
-      const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
-      const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
-      await executeContractCallWithSigners(
-        queueConnectedToUser2,
-        storageSetter,
-        'setStorage',
-        [73],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '1',
-          value: '0',
-          operation: 1,
-        },
-        refundParams,
-        user1,
-      )
-      const num = 73
-      const hex73 = num.toString(16)
-      expect(await provider.getStorageAt(safe.address, '0x7373737373737373737373737373737373737373737373737373737373737373')).to.eq(
-        `0x${hex73.padStart(64, '0')}`,
-      )
-    })
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
 
-    it('should send ether refund', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-      const transferAmountWei = parseEther('1.5')
-      const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+          await expect(executeTx(transactionQueueInstance, safeTransaction, [{ signer: user1.address, data: '0x' }])).to.be.revertedWith(
+            safeSetup.errors.signaturesTooShort,
+          )
+        })
 
-      await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+        it('should revert if signatures are invalid', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
-
-      const user2BalanceBeforeTransfer = await provider.getBalance(user2.address)
-      const tx = executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1)
-      await expect(tx).to.emit(transactionQueueInstance, 'SuccessfulExecution').withArgs
-      const txReceipt = await (await tx).wait(1)
-      const successEvent = transactionQueueInstance.interface.decodeEventLog(
-        'SuccessfulExecution',
-        txReceipt.logs[0].data,
-        txReceipt.logs[0].topics,
-      )
-      const user2BalanceAfterTransfer = await provider.getBalance(user2.address)
-      expect(user2BalanceAfterTransfer).to.be.equal(user2BalanceBeforeTransfer.add(successEvent.payment))
-    })
+          // The mock only supports ECDSA signatures with eth_sign/eip191
+          const signature =
+            '0x' +
+            '000000000000000000000000' +
+            user1.address.slice(2) +
+            '0000000000000000000000000000000000000000000000000000000000000041' +
+            '00' // r, s, v
 
-    it('should fail if not enough ether to refund', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-      const transferAmountWei = parseEther('1')
+          await expect(
+            executeTx(transactionQueueInstance, safeTransaction, [{ signer: user1.address, data: signature }]),
+          ).to.be.revertedWith(safeSetup.errors.signaturesTooShort)
+        })
 
-      await user1.sendTransaction({ to: safe.address, value: transferAmountWei })
-      expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei)
+        it("should revert if the signed nonce doesn't match current safe nonce", async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '1')
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
-      const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
+          const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
 
-      await expect(executeTxWithSignersAndRefund(queueConnectedToUser2, safeTransaction, [user1], refundParams, user1)).to.be.revertedWith(
-        'RefundFailure()',
-      )
-    })
+          // The mock only supports ECDSA signatures with eth_sign/eip191
+          const signatures = await Promise.all(signers.map((signer) => signHash(signer, transactionHash)))
 
-    it('should send token refund', async () => {})
+          await expect(executeTx(transactionQueueInstance, safeTransaction, signatures)).to.be.revertedWith(safeSetup.errors.invalidOwner)
+        })
 
-    it('should send the refund if the internal transaction reverted', async () => {
-      const { safe, transactionQueueInstance, revertooor } = await setupTests()
-      const provider = hre.ethers.provider
-      const maxGasRefund = BigNumber.from('10000000000').mul('150000')
+        it('should increase the nonce', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
 
-      await user1.sendTransaction({ to: safe.address, value: maxGasRefund })
+          expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(0)
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+          await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
 
-      const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '0')
+          const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
 
-      const user2BalanceBeforeTransfer = await provider.getBalance(user2.address)
-      const tx = await executeContractCallWithSigners(
-        transactionQueueInstance,
-        revertooor,
-        'setStorage',
-        [73],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '1',
-          value: '0',
-          operation: 0,
-        },
-        refundParams,
-        user1,
-      )
-      await expect(tx).to.emit(transactionQueueInstance, 'SuccessfulExecution').withArgs
-      const txReceipt = await (await tx).wait(1)
-      const successEvent = transactionQueueInstance.interface.decodeEventLog(
-        'SuccessfulExecution',
-        txReceipt.logs[0].data,
-        txReceipt.logs[0].topics,
-      )
-      const user2BalanceAfterTransfer = await provider.getBalance(user2.address)
-      expect(user2BalanceAfterTransfer).to.be.equal(user2BalanceBeforeTransfer.add(successEvent.payment))
-    })
+          // The mock only supports ECDSA signatures with eth_sign/eip191
+          const signatures = await Promise.all(signers.map((signer) => signHash(signer, transactionHash)))
 
-    it('should respect the refund receiver allowlist', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-      const transferAmountWei = parseEther('1.5')
-      const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+          await executeTx(transactionQueueInstance, safeTransaction, signatures)
 
-      await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
-      expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+          expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(1)
+        })
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, [user1.address]],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+        it('should execute native token transfers', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
+          expect(await provider.getBalance(safe.address)).to.eq(0)
+          await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+          expect(await provider.getBalance(safe.address)).to.eq(parseEther('1'))
 
-      await expect(
-        executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1),
-      ).to.be.revertedWith('InvalidRefundReceiver()')
-    })
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '0')
+          const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
 
-    it('should respect maxFeePerGas refund boundary', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-      const transferAmountWei = parseEther('1.5')
-      const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+          // The mock only supports ECDSA signatures with eth_sign/eip191
+          const signatures = await Promise.all(signers.map((signer) => signHash(signer, transactionHash)))
 
-      await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
-      expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+          // Connect to user2, so user1 doesnt spend gas to send the transaction and we get more accurate balance calculations
+          const queueWithUser2 = transactionQueueInstance.connect(user2)
+          const balanceBeforeTransfer = await provider.getBalance(user1.address)
+          await executeTx(queueWithUser2, safeTransaction, signatures)
+          const balanceAfterTransfer = await provider.getBalance(user1.address)
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+          expect(balanceAfterTransfer).to.eq(balanceBeforeTransfer.add(parseEther('1')))
+        })
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 120000, 100000000000, user2.address)
+        it('should execute contract calls', async () => {
+          const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+          const provider = hre.ethers.provider
 
-      await expect(
-        executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1),
-      ).to.be.revertedWith('RefundGasBoundariesNotMet()')
-    })
+          expect(
+            await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
+          ).to.eq(`0x${'0'.repeat(64)}`)
 
-    it('should respect maxGasLimit refund boundary', async () => {
-      const { safe, transactionQueueInstance } = await setupTests()
-      const provider = hre.ethers.provider
-      const transferAmountWei = parseEther('1.5')
-      const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+          const setStorageTx = buildContractCall(safe.address, storageSetter, 'setStorage', [543], {
+            operation: 0,
+          })
 
-      await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
-      expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+          await executeTxWithSigners(transactionQueueInstance, setStorageTx, signers)
 
-      await executeContractCallWithSigners(
-        transactionQueueInstance,
-        transactionQueueInstance,
-        'setRefundConditions',
-        [AddressZero, 10000000000, 10000000, []],
-        [user1],
-        {
-          safe: safe.address,
-          nonce: '0',
-          value: '0',
-          operation: 0,
-        },
-      )
+          const num = 543
+          const hex543 = num.toString(16)
+          expect(
+            await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
+          ).to.eq(`0x${hex543.padStart(64, '0')}`)
+        })
 
-      const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
-      const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
-      const refundParams = buildRefundParams(txHash, AddressZero, 10000000 + 5000000, 10000000000, user2.address)
+        it('should execute delegatecall calls', async () => {
+          const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+          const provider = hre.ethers.provider
 
-      await expect(
-        executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, [user1], refundParams, user1),
-      ).to.be.revertedWith('RefundGasBoundariesNotMet()')
+          expect(await provider.getStorageAt(safe.address, '0x7373737373737373737373737373737373737373737373737373737373737373')).to.eq(
+            `0x${'0'.repeat(64)}`,
+          )
+
+          const setStorageTx = buildContractCall(safe.address, storageSetter, 'setStorage', [543], {
+            operation: 1,
+          })
+
+          const transactionHash = calculateSafeTransactionHash(transactionQueueInstance, setStorageTx, await chainId())
+
+          // The mock only supports ECDSA signatures with eth_sign/eip191
+          const signatures = await Promise.all(signers.map((signer) => signHash(signer, transactionHash)))
+
+          await executeTx(transactionQueueInstance, setStorageTx, signatures)
+
+          const num = 543
+          const hex543 = num.toString(16)
+          expect(await provider.getStorageAt(safe.address, '0x7373737373737373737373737373737373737373737373737373737373737373')).to.eq(
+            `0x${hex543.padStart(64, '0')}`,
+          )
+        })
+      })
+
+      describe('execTransactionWithRefund', () => {
+        it('should revert if transaction signature data is not present', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const emptyTxSig = {
+            signer: user1.address,
+            data: '0x',
+          }
+          const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
+          const refundParamsSignature = await signRefundParamsTypedData(user1, transactionQueueInstance, refundParams)
+
+          await expect(
+            executeTxWithRefund(transactionQueueInstance, safeTransaction, [emptyTxSig], refundParams, refundParamsSignature),
+          ).to.be.revertedWith(safeSetup.errors.signaturesTooShort)
+        })
+
+        it('should revert if transaction signatures are invalid', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const differentTransaction = buildSafeTransaction(safe.address, user2.address, '2000000000000000000', '0x', 0, '0')
+          const differentTxSigs = await Promise.all(
+            signers.map((signer) => queueSignTypedData(signer, transactionQueueInstance, differentTransaction)),
+          )
+          const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
+          const refundParamsSignature = await signRefundParamsTypedData(user1, transactionQueueInstance, refundParams)
+
+          await expect(
+            executeTxWithRefund(transactionQueueInstance, safeTransaction, differentTxSigs, refundParams, refundParamsSignature),
+          ).to.be.revertedWith(safeSetup.errors.invalidOwner)
+        })
+
+        it("should revert if the transaction nonce doesn't match current safe nonce", async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
+
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith(safeSetup.errors.invalidOwner)
+        })
+
+        it('should revert if refund message signature has different transaction hash', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          await user1.sendTransaction({ to: safe.address, value: parseEther('1.5') })
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
+          const refundParams = buildRefundParams(`0x${'0'.repeat(64)}`, AddressZero, 500000, 10000000000, user1.address)
+
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith(safeSetup.errors.invalidOwner)
+        })
+
+        it('should revert if refund message signature is not present', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '0')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const txSignatures = await Promise.all(
+            signers.map((signer) => queueSignTypedData(signer, transactionQueueInstance, safeTransaction)),
+          )
+          const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
+          const refundParamsSignature = {
+            signer: user1.address,
+            data: '0x',
+          }
+
+          await expect(
+            executeTxWithRefund(transactionQueueInstance, safeTransaction, txSignatures, refundParams, refundParamsSignature),
+          ).to.be.revertedWith(safeSetup.errors.signaturesTooShort)
+        })
+
+        it('should revert if supplied gas is less than signed gas limit', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(0)
+          await user1.sendTransaction({ to: safe.address, value: parseEther('1.5') })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, '1000000000000000000', '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
+
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1, { gasLimit: 300000 }),
+          ).to.be.revertedWith('NotEnoughGas')
+        })
+
+        it('should increase the nonce', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+
+          expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(0)
+          await user1.sendTransaction({ to: safe.address, value: parseEther('1.5') })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, parseEther('1'), '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 500000, 10000000000, user1.address)
+
+          await executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1)
+
+          expect(await transactionQueueInstance.safeNonces(safe.address)).to.eq(2)
+        })
+
+        it('should execute native token transfers', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+          expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
+
+          const userBalanceBeforeTransfer = await provider.getBalance(user1.address)
+          const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
+          await executeTxWithSignersAndRefund(queueConnectedToUser2, safeTransaction, signers, refundParams, user1)
+          const userBalanceAfterTransfer = await provider.getBalance(user1.address)
+
+          expect(userBalanceAfterTransfer.sub(userBalanceBeforeTransfer)).to.eq(transferAmountWei)
+        })
+
+        it('should execute contract calls', async () => {
+          const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+          const provider = hre.ethers.provider
+          const maxGasRefund = BigNumber.from('10000000000').mul('150000')
+
+          await user1.sendTransaction({ to: safe.address, value: maxGasRefund })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          expect(
+            await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
+          ).to.eq(`0x${'0'.repeat(64)}`)
+
+          const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
+          const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
+          await executeContractCallWithSigners(
+            queueConnectedToUser2,
+            storageSetter,
+            'setStorage',
+            [73],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '1',
+              value: '0',
+              operation: 0,
+            },
+            refundParams,
+            user1,
+          )
+          const num = 73
+          const hex73 = num.toString(16)
+          expect(
+            await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
+          ).to.eq(`0x${hex73.padStart(64, '0')}`)
+        })
+
+        it('should execute delegate calls', async () => {
+          const { safe, transactionQueueInstance, storageSetter } = await setupTests()
+          const provider = hre.ethers.provider
+          const maxGasRefund = BigNumber.from('10000000000').mul('150000')
+
+          await user1.sendTransaction({ to: safe.address, value: maxGasRefund })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          expect(
+            await provider.getStorageAt(storageSetter.address, '0x7373737373737373737373737373737373737373737373737373737373737373'),
+          ).to.eq(`0x${'0'.repeat(64)}`)
+
+          const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
+          const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
+          await executeContractCallWithSigners(
+            queueConnectedToUser2,
+            storageSetter,
+            'setStorage',
+            [73],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '1',
+              value: '0',
+              operation: 1,
+            },
+            refundParams,
+            user1,
+          )
+          const num = 73
+          const hex73 = num.toString(16)
+          expect(await provider.getStorageAt(safe.address, '0x7373737373737373737373737373737373737373737373737373737373737373')).to.eq(
+            `0x${hex73.padStart(64, '0')}`,
+          )
+        })
+
+        it('should send ether refund', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
+
+          const user2BalanceBeforeTransfer = await provider.getBalance(user2.address)
+          const tx = executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1)
+          await expect(tx).to.emit(transactionQueueInstance, 'SuccessfulExecution').withArgs
+          const txReceipt = await (await tx).wait(1)
+          const successEvent = getSuccessfulExecution(txReceipt)
+          const user2BalanceAfterTransfer = await provider.getBalance(user2.address)
+          expect(user2BalanceAfterTransfer).to.be.equal(user2BalanceBeforeTransfer.add(successEvent.payment))
+        })
+
+        for (const refundEffectiveGasPrice of [false, true]) {
+          for (const gasPrice of [2000000000, 20000000000]) {
+            it(`should refund at ${
+              refundEffectiveGasPrice ? 'min(maxFeePerGas, tx.gasprice)' : 'maxFeePerGas'
+            } with a gas price of ${gasPrice}`, async () => {
+              const { safe, transactionQueueInstance } = await setupTests()
+              const maxFeePerGas = 10000000000
+              await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+              await executeContractCallWithSigners(
+                transactionQueueInstance,
+                transactionQueueInstance,
+                'setRefundConditions',
+                [AddressZero, 20000000000, 10000000, []],
+                signers,
+                { safe: safe.address, nonce: '0', value: '0', operation: 0 },
+              )
+              await executeContractCallWithSigners(
+                transactionQueueInstance,
+                transactionQueueInstance,
+                'setEffectiveGasPriceRefund',
+                [AddressZero, refundEffectiveGasPrice],
+                signers,
+                { safe: safe.address, nonce: '1', value: '0', operation: 0 },
+              )
+
+              const safeTransaction = buildSafeTransaction(safe.address, user1.address, 0, '0x', 0, '2')
+              const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+              const refundParams = buildRefundParams(txHash, AddressZero, 120000, maxFeePerGas, user2.address)
+
+              const tx = await executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1, {
+                gasPrice,
+              })
+              const txReceipt = await tx.wait(1)
+              const { payment } = getSuccessfulExecution(txReceipt)
+
+              const refundGasPrice = refundEffectiveGasPrice ? Math.min(maxFeePerGas, gasPrice) : maxFeePerGas
+              expect(payment.mod(refundGasPrice)).to.eq(0)
+              expect(payment.div(refundGasPrice)).to.be.gt(txReceipt.gasUsed.div(2))
+              expect(payment.div(refundGasPrice)).to.be.lte(120000)
+            })
+          }
+        }
+
+        it('should refund the configured refund gas overhead', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            { safe: safe.address, nonce: '0', value: '0', operation: 0 },
+          )
+          const payments: BigNumber[] = []
+          for (const refundGasOverhead of [0, 100000]) {
+            const nonce = payments.length * 2 + 1
+            await executeContractCallWithSigners(
+              transactionQueueInstance,
+              transactionQueueInstance,
+              'setRefundGasOverhead',
+              [AddressZero, refundGasOverhead],
+              signers,
+              { safe: safe.address, nonce: `${nonce}`, value: '0', operation: 0 },
+            )
+
+            const safeTransaction = buildSafeTransaction(safe.address, user1.address, 0, '0x', 0, `${nonce + 1}`)
+            const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+            const refundParams = buildRefundParams(txHash, AddressZero, 1000000, 10000000000, user2.address)
+            const tx = await executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1)
+            const txReceipt = await tx.wait(1)
+            payments.push(getSuccessfulExecution(txReceipt).payment)
+          }
+
+          // Both executions use the same gas, so the payments only differ by the overhead that replaces the default overhead
+          expect(payments[1].sub(payments[0]).div(10000000000).toNumber()).to.be.closeTo(100000 - 19055, 100)
+        })
+
+        it('should fail if not enough ether to refund', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
+          const transferAmountWei = parseEther('1')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei })
+          expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei)
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
+          const queueConnectedToUser2 = await transactionQueueInstance.connect(user2)
+
+          await expect(
+            executeTxWithSignersAndRefund(queueConnectedToUser2, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith('RefundFailure()')
+        })
+
+        it('should send token refund', async () => {})
+
+        it('should send the refund if the internal transaction reverted', async () => {
+          const { safe, transactionQueueInstance, revertooor } = await setupTests()
+          const provider = hre.ethers.provider
+          const maxGasRefund = BigNumber.from('10000000000').mul('150000')
+
+          await user1.sendTransaction({ to: safe.address, value: maxGasRefund })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const refundParams = buildRefundParams('', AddressZero, 150000, 10000000000, user2.address)
+
+          const user2BalanceBeforeTransfer = await provider.getBalance(user2.address)
+          const tx = await executeContractCallWithSigners(
+            transactionQueueInstance,
+            revertooor,
+            'setStorage',
+            [73],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '1',
+              value: '0',
+              operation: 0,
+            },
+            refundParams,
+            user1,
+          )
+          await expect(tx).to.emit(transactionQueueInstance, 'SuccessfulExecution').withArgs
+          const txReceipt = await (await tx).wait(1)
+          const successEvent = getSuccessfulExecution(txReceipt)
+          const user2BalanceAfterTransfer = await provider.getBalance(user2.address)
+          expect(user2BalanceAfterTransfer).to.be.equal(user2BalanceBeforeTransfer.add(successEvent.payment))
+        })
+
+        it('should respect the refund receiver allowlist', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+          expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, [user1.address]],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address)
+
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith('InvalidRefundReceiver()')
+        })
+
+        it('should respect maxFeePerGas refund boundary', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+          expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 100000000000, user2.address)
+
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith('RefundGasBoundariesNotMet()')
+        })
+
+        it('should respect maxGasLimit refund boundary', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const provider = hre.ethers.provider
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+          expect(await provider.getBalance(safe.address)).to.eq(transferAmountWei.add(maxGasRefund))
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 10000000 + 5000000, 10000000000, user2.address)
+
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith('RefundGasBoundariesNotMet()')
+        })
+
+        it('should revert if the refund params expired', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const { timestamp } = await hre.ethers.provider.getBlock('latest')
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address, timestamp + 60)
+
+          await hre.network.provider.send('evm_setNextBlockTimestamp', [timestamp + 61])
+          await expect(
+            executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1),
+          ).to.be.revertedWith('RefundParamsExpired()')
+        })
+
+        it('should accept refund params until they expire', async () => {
+          const { safe, transactionQueueInstance } = await setupTests()
+          const transferAmountWei = parseEther('1.5')
+          const maxGasRefund = BigNumber.from('10000000000').mul('120000')
+
+          await user1.sendTransaction({ to: safe.address, value: transferAmountWei.add(maxGasRefund) })
+
+          await executeContractCallWithSigners(
+            transactionQueueInstance,
+            transactionQueueInstance,
+            'setRefundConditions',
+            [AddressZero, 10000000000, 10000000, []],
+            signers,
+            {
+              safe: safe.address,
+              nonce: '0',
+              value: '0',
+              operation: 0,
+            },
+          )
+
+          const { timestamp } = await hre.ethers.provider.getBlock('latest')
+          const safeTransaction = buildSafeTransaction(safe.address, user1.address, transferAmountWei, '0x', 0, '1')
+          const txHash = calculateSafeTransactionHash(transactionQueueInstance, safeTransaction, await chainId())
+          const refundParams = buildRefundParams(txHash, AddressZero, 120000, 10000000000, user2.address, timestamp + 60)
+
+          await hre.network.provider.send('evm_setNextBlockTimestamp', [timestamp + 60])
+          await expect(executeTxWithSignersAndRefund(transactionQueueInstance, safeTransaction, signers, refundParams, user1)).to.emit(
+            transactionQueueInstance,
+            'SuccessfulExecution',
+          )
+        })
+      })
     })
-  })
+  }
 })
@@ -0,0 +1,265 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import http from 'http'
+import { AddressInfo } from 'net'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTestToken, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { RelayerService } from '../../src/relayer/service'
+import { GasTokenPricer, StaticPriceSource } from '../../src/utils/pricing'
+import { createRelayerServer } from '../../src/relayer/server'
+
+const request = async (server: http.Server, method: string, path: string, body?: any): Promise<{ statusCode: number; body: any }> => {
+  const { port } = server.address() as AddressInfo
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path, headers: { 'Content-Type': 'application/json' } }, (res) => {
+      let data = ''
+      res.on('data', (chunk) => (data += chunk))
+      res.on('end', () => resolve({ statusCode: res.statusCode!!, body: JSON.parse(data) }))
+    })
+    req.on('error', reject)
+    req.end(body === undefined ? undefined : JSON.stringify(body))
+  })
+}
+
+describe('RelayerService', async () => {
+  const [user1, user2] = waffle.provider.getWallets()
+  let server: http.Server
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const ownerClient = await TransactionQueueClient.connect(transactionQueueInstance.address, user1)
+    const relayerClient = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    const token = await getTestToken(user1)
+
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+    await token.transfer(safe.address, await token.balanceOf(user1.address))
+    await setRefundConditions(ownerClient, safe.address, user1, [AddressZero, token.address], 100000000000, 10000000)
+
+    return {
+      safe,
+      token,
+      ownerClient,
+      relayerClient,
+    }
+  })
+
+  const buildRelayRequest = async (
+    client: TransactionQueueClient,
+    safeAddress: string,
+    refund: { gasToken?: string; gasLimit?: number; maxFeePerGas?: number; refundReceiver?: string } = {},
+  ) => {
+    const safeTx = await client.propose(safeAddress, user1.address, parseEther('0.1'), '0x', 0)
+    const refundParams = client.buildRefundParams(
+      safeTx,
+      refund.gasToken || AddressZero,
+      refund.gasLimit || 150000,
+      refund.maxFeePerGas || 20000000000,
+      refund.refundReceiver || user2.address,
+    )
+    return {
+      safeTx,
+      signatures: [await client.signTransaction(user1, safeTx)],
+      refundParams,
+      refundSignature: await client.signRefundParams(user1, refundParams),
+    }
+  }
+
+  const startServer = async (relayerClient: TransactionQueueClient, maxBodySize?: number) => {
+    server = createRelayerServer(new RelayerService(relayerClient), maxBodySize)
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  }
+
+  afterEach(async () => {
+    if (server && server.listening) await new Promise((resolve) => server.close(resolve))
+  })
+
+  describe('POST /transactions', () => {
+    it('should relay the transaction and report its status', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address)
+      const relayerBalanceBefore = await hre.ethers.provider.getBalance(user2.address)
+
+      const submitResponse = await request(server, 'POST', '/transactions', relayRequest)
+      expect(submitResponse.statusCode).to.eq(202)
+      expect(submitResponse.body.state).to.eq('submitted')
+      expect(submitResponse.body.safeTxHash).to.eq(relayRequest.refundParams.safeTxHash)
+
+      const statusResponse = await request(server, 'GET', `/transactions/${relayRequest.refundParams.safeTxHash}`)
+      expect(statusResponse.statusCode).to.eq(200)
+      expect(statusResponse.body.state).to.eq('executed')
+      expect(statusResponse.body.transactionHash).to.eq(submitResponse.body.transactionHash)
+
+      const receipt = await hre.ethers.provider.getTransactionReceipt(submitResponse.body.transactionHash)
+      const relayerBalanceAfter = await hre.ethers.provider.getBalance(user2.address)
+      expect(relayerBalanceAfter.sub(relayerBalanceBefore)).to.eq(
+        hre.ethers.BigNumber.from(statusResponse.body.payment).sub(receipt.gasUsed.mul(receipt.effectiveGasPrice)),
+      )
+      expect(await ownerClient.getNonce(safe.address)).to.eq(3)
+    })
+
+    it('should reject malformed requests', async () => {
+      const { relayerClient } = await setupTests()
+      await startServer(relayerClient)
+
+      const response = await request(server, 'POST', '/transactions', { safeTx: { safe: 'not an address' } })
+
+      expect(response.statusCode).to.eq(400)
+      expect(response.body.error).to.eq('Invalid safe transaction')
+    })
+
+    it('should reject request bodies that exceed the size limit', async () => {
+      const { relayerClient } = await setupTests()
+      await startServer(relayerClient, 1024)
+
+      const response = await request(server, 'POST', '/transactions', { safeTx: { data: `0x${'ab'.repeat(1024)}` } })
+
+      expect(response.statusCode).to.eq(413)
+      expect(response.body.error).to.eq('Request body exceeds 1024 bytes')
+    })
+
+    it('should accept a refund params hash that differs in case', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address)
+      relayRequest.refundParams.safeTxHash = relayRequest.refundParams.safeTxHash.toUpperCase().replace('0X', '0x')
+
+      const status = await new RelayerService(relayerClient).submit(relayRequest)
+
+      expect(status.state).to.eq('submitted')
+    })
+
+    it('should reject refund params signed for another transaction', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address)
+      relayRequest.refundParams.safeTxHash = `0x${'00'.repeat(32)}`
+
+      const response = await request(server, 'POST', '/transactions', relayRequest)
+
+      expect(response.statusCode).to.eq(400)
+      expect(response.body.error).to.eq('Refund params are not signed for this transaction')
+    })
+
+    it('should reject refunds to another receiver', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address, { refundReceiver: user1.address })
+
+      const response = await request(server, 'POST', '/transactions', relayRequest)
+
+      expect(response.statusCode).to.eq(400)
+      expect(response.body.error).to.eq('Refund receiver is not the relayer')
+    })
+
+    it('should reject gas tokens that are not accepted', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address, { gasToken: user1.address })
+
+      const response = await request(server, 'POST', '/transactions', relayRequest)
+
+      expect(response.statusCode).to.eq(400)
+      expect(response.body.error).to.eq(`Gas token ${user1.address} is not accepted`)
+    })
+
+    it('should reject transactions that fail the simulation', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address, { maxFeePerGas: 200000000000 })
+
+      const response = await request(server, 'POST', '/transactions', relayRequest)
+
+      expect(response.statusCode).to.eq(400)
+      expect(response.body.error).to.eq("Simulation failed: Transaction reverted with custom error 'RefundGasBoundariesNotMet()'")
+    })
+
+    it('should reject refunds that do not cover the execution cost', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address, { maxFeePerGas: 1000000000 })
+
+      const response = await request(server, 'POST', '/transactions', relayRequest)
+
+      expect(response.statusCode).to.eq(400)
+      expect(response.body.error).to.contain('does not cover execution cost')
+    })
+
+    it('should reject transactions that were already submitted', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      await startServer(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address)
+      await request(server, 'POST', '/transactions', relayRequest)
+
+      const response = await request(server, 'POST', '/transactions', relayRequest)
+
+      expect(response.statusCode).to.eq(409)
+    })
+
+    it('should compare token refunds with the execution cost converted into the token', async () => {
+      const { safe, token, ownerClient, relayerClient } = await setupTests()
+      const pricer = (tokenPrice: string) =>
+        new GasTokenPricer(hre.ethers.provider, new StaticPriceSource({ [token.address]: { price: parseEther(tokenPrice), decimals: 18 } }))
+      // A fee of 100000 token units per gas covers the cost if one token is worth a million ETH, but not if it is worth 1000 ETH
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address, { gasToken: token.address, maxFeePerGas: 100000 })
+
+      const error = await new RelayerService(relayerClient, { gasTokens: [token.address], pricer: pricer('1000') })
+        .submit(relayRequest)
+        .catch((e) => e)
+      const status = await new RelayerService(relayerClient, { gasTokens: [token.address], pricer: pricer('1000000') }).submit(relayRequest)
+
+      expect(error.message).to.contain('does not cover execution cost')
+      expect(status.state).to.eq('submitted')
+      expect(await token.balanceOf(user2.address)).to.be.gt(0)
+    })
+
+    it('should require a pricer to accept gas tokens other than the native token', async () => {
+      const { token, relayerClient } = await setupTests()
+
+      expect(() => new RelayerService(relayerClient, { gasTokens: [AddressZero, token.address] })).to.throw(
+        'A pricer is required to accept gas tokens other than the native token',
+      )
+    })
+
+    it('should relay only one of concurrent requests for the same transaction', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      const service = new RelayerService(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address)
+
+      const results = await Promise.all([service.submit(relayRequest), service.submit(relayRequest)].map((p) => p.catch((e) => e)))
+
+      expect(results[0].state).to.eq('submitted')
+      expect(results[1].message).to.eq('Transaction was already submitted')
+      expect(results[1].statusCode).to.eq(409)
+    })
+
+    it('should accept a transaction again after its submission failed', async () => {
+      const { safe, ownerClient, relayerClient } = await setupTests()
+      const service = new RelayerService(relayerClient)
+      const relayRequest = await buildRelayRequest(ownerClient, safe.address, { refundReceiver: user1.address })
+
+      const error = await service.submit(relayRequest).catch((e) => e)
+      const retryError = await service.submit(relayRequest).catch((e) => e)
+
+      expect(error.message).to.eq('Refund receiver is not the relayer')
+      expect(retryError.message).to.eq('Refund receiver is not the relayer')
+    })
+  })
+
+  describe('GET /transactions/:safeTxHash', () => {
+    it('should return 404 for unknown transactions', async () => {
+      const { relayerClient } = await setupTests()
+      await startServer(relayerClient)
+
+      const response = await request(server, 'GET', `/transactions/0x${'11'.repeat(32)}`)
+
+      expect(response.statusCode).to.eq(404)
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { expect } from 'chai'
+import { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { PendingTransactionManager } from '../../src/utils/pending'
+
+describe('PendingTransactionManager', async () => {
+  const [user1, user2] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    return {
+      safe,
+      client,
+    }
+  })
+
+  it('should assign sequential nonces starting at the queue nonce', async () => {
+    const { safe, client } = await setupTests()
+    const executed = await client.propose(safe.address, user2.address, 0, '0x', 0)
+    await client.execute(executed, [await client.signTransaction(user1, executed)])
+    const manager = new PendingTransactionManager(client, safe.address)
+
+    const first = await manager.propose(user2.address, 0, '0x', 0)
+    const second = await manager.propose(user2.address, 0, '0x01', 0)
+
+    expect(first.nonce).to.eq('1')
+    expect(second.nonce).to.eq('2')
+    expect((await manager.getPending()).map((p) => p.state)).to.deep.eq(['executable', 'queued'])
+  })
+
+  it('should detect transactions competing for the same nonce', async () => {
+    const { safe, client } = await setupTests()
+    const manager = new PendingTransactionManager(client, safe.address)
+    const first = manager.add(await client.propose(safe.address, user2.address, 0, '0x', 0))
+    const second = manager.add(await client.propose(safe.address, user2.address, 0, '0x01', 0))
+
+    expect((await manager.getPending()).map((p) => p.state)).to.deep.eq(['conflicting', 'conflicting'])
+    expect(await manager.getConflicts()).to.deep.eq(new Map([['0', [first, second]]]))
+
+    const error = await manager.getNextExecutable().catch((e) => e)
+    expect(error.message).to.eq(`Transactions ${first}, ${second} compete for nonce 0`)
+
+    manager.remove(second)
+    expect((await manager.getNextExecutable())?.safeTxHash).to.eq(first)
+  })
+
+  it('should mark transactions as stale once the queue nonce passed them', async () => {
+    const { safe, client } = await setupTests()
+    const manager = new PendingTransactionManager(client, safe.address)
+    const first = await manager.propose(user2.address, 0, '0x', 0)
+    const competing = manager.add(await client.propose(safe.address, user2.address, 0, '0x01', 0))
+    const second = await manager.propose(user2.address, 0, '0x', 0)
+
+    await client.execute(first, [await client.signTransaction(user1, first)])
+
+    const pending = await manager.getPending()
+    expect(pending.map((p) => p.state)).to.deep.eq(['stale', 'stale', 'executable'])
+    expect(pending[2].safeTx).to.deep.eq(second)
+
+    const stale = await manager.pruneStale()
+    expect(stale.map((p) => p.safeTxHash)).to.have.members([client.getTransactionHash(first), competing])
+    expect((await manager.getNextExecutable())?.safeTx).to.deep.eq(second)
+  })
+
+  it('should execute the pending transactions in order', async () => {
+    const { safe, client } = await setupTests()
+    const manager = new PendingTransactionManager(client, safe.address)
+    for (let i = 0; i < 3; i++) await manager.propose(user2.address, 0, '0x', 0)
+
+    let next = await manager.getNextExecutable()
+    while (next) {
+      await client.execute(next.safeTx, [await client.signTransaction(user1, next.safeTx)])
+      next = await manager.getNextExecutable()
+    }
+
+    expect(await client.getNonce(safe.address)).to.eq(3)
+    expect((await manager.pruneStale()).length).to.eq(3)
+    expect(await manager.getNextNonce()).to.eq(3)
+  })
+
+  it('should reject transactions of other Safes', async () => {
+    const { safe, client } = await setupTests()
+    const manager = new PendingTransactionManager(client, safe.address)
+    const safeTx = await client.propose(user1.address, user2.address, 0, '0x', 0)
+
+    expect(() => manager.add(safeTx)).to.throw(`Transaction is not for Safe ${safe.address}`)
+  })
+})
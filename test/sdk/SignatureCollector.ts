@@ -0,0 +1,169 @@
+import { expect } from 'chai'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { SignatureCollector } from '../../src/utils/collector'
+import { buildContractSignature, buildPreValidatedSignature, signHash } from '../../src/utils/execution'
+
+describe('SignatureCollector', async () => {
+  const [user1, user2, user3, user4] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address, user3.address], 2, transactionQueueInstance.address)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user4)
+
+    return {
+      safe,
+      client,
+    }
+  })
+
+  it('should report missing signatures until the threshold is met', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+
+    expect(await collector.getStatus(safeTxHash)).to.deep.eq({ safeTxHash, threshold: 2, signers: [], missing: 2 })
+
+    const status = await collector.addSignature(safeTxHash, await client.signTransaction(user2, safeTx))
+
+    expect(status).to.deep.eq({ safeTxHash, threshold: 2, signers: [user2.address], missing: 1 })
+  })
+
+  it('should only build the signature bytes once the threshold is met', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+
+    await collector.addSignature(safeTxHash, await client.signTransaction(user3, safeTx))
+    const error = await collector.getSignatureBytes(safeTxHash).catch((e) => e)
+    expect(error.message).to.eq(`Transaction ${safeTxHash} is missing 1 signature(s)`)
+
+    await collector.addSignature(safeTxHash, await signHash(user1, safeTxHash))
+    const signatures = await collector.getSignatureBytes(safeTxHash)
+
+    await expect(client.contract.execTransaction(safeTx, signatures))
+      .to.emit(client.contract, 'SuccessfulExecution')
+      .withArgs(safeTxHash, 0)
+  })
+
+  it('should reject signatures of non owners', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+
+    const error = await collector.addSignature(safeTxHash, await client.signTransaction(user4, safeTx)).catch((e) => e)
+
+    expect(error.message).to.eq(`${user4.address} is not an owner of the Safe`)
+  })
+
+  it('should reject signatures that do not recover to the claimed signer', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+    const signature = await client.signTransaction(user2, safeTx)
+
+    const error = await collector.addSignature(safeTxHash, { signer: user1.address, data: signature.data }).catch((e) => e)
+
+    expect(error.message).to.eq(`Signature of ${user1.address} was signed by ${user2.address}`)
+  })
+
+  it('should reject duplicate signatures', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+    await collector.addSignature(safeTxHash, await client.signTransaction(user1, safeTx))
+
+    const error = await collector.addSignature(safeTxHash, await signHash(user1, safeTxHash)).catch((e) => e)
+
+    expect(error.message).to.eq(`${user1.address} already signed ${safeTxHash}`)
+  })
+
+  it('should reject forged pre-validated and contract signatures', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+
+    const preValidatedError = await collector.addSignature(safeTxHash, buildPreValidatedSignature(user2.address)).catch((e) => e)
+    const contractError = await collector.addSignature(safeTxHash, buildContractSignature(user3.address, '0x')).catch((e) => e)
+    await safe.connect(user2).approveHash(safeTxHash)
+    const status = await collector.addSignature(safeTxHash, buildPreValidatedSignature(user2.address))
+
+    expect(preValidatedError.message).to.eq(`${user2.address} did not approve ${safeTxHash}`)
+    expect(contractError.message).to.eq(`Contract signature of ${user3.address} is not valid`)
+    expect(status.signers).to.deep.eq([user2.address])
+  })
+
+  it('should reject signatures for unknown transactions', async () => {
+    const { safe, client } = await setupTests()
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = client.getTransactionHash(safeTx)
+
+    const error = await collector.addSignature(safeTxHash, await client.signTransaction(user1, safeTx)).catch((e) => e)
+
+    expect(error.message).to.eq(`Transaction ${safeTxHash} is not collected`)
+  })
+
+  it('should save and load collected signatures', async () => {
+    const { safe, client } = await setupTests()
+    const file = path.join(os.tmpdir(), `signatures-${Date.now()}.json`)
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 1, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+    await collector.addSignature(safeTxHash, await client.signTransaction(user1, safeTx))
+    await collector.save(file)
+
+    const loaded = await SignatureCollector.load(client, file)
+    const status = await loaded.addSignature(safeTxHash, await client.signTransaction(user2, safeTx))
+    await fs.unlink(file)
+
+    expect(loaded.get(safeTxHash).safeTx).to.deep.eq({ ...safeTx, value: '1' })
+    expect(status.signers).to.deep.eq([user1.address, user2.address])
+    expect(status.missing).to.eq(0)
+  })
+
+  it('should check the signatures of a loaded file', async () => {
+    const { safe, client } = await setupTests()
+    const file = path.join(os.tmpdir(), `signatures-${Date.now()}.json`)
+    const collector = new SignatureCollector(client)
+    const safeTx = await client.propose(safe.address, user4.address, 0, '0x', 0)
+    const safeTxHash = collector.add(safeTx)
+    await collector.addSignature(safeTxHash, await client.signTransaction(user1, safeTx))
+    await collector.save(file)
+    const content = JSON.parse(await fs.readFile(file, 'utf8'))
+    const [signature] = content.transactions[safeTxHash].signatures
+    content.transactions[safeTxHash].signatures = [signature, { ...signature, signer: user2.address }]
+    await fs.writeFile(file, JSON.stringify(content))
+
+    const error = await SignatureCollector.load(client, file).catch((e) => e)
+    await fs.unlink(file)
+
+    expect(error.message).to.eq(`Signature of ${user2.address} was signed by ${user1.address}`)
+  })
+
+  it('should not load signatures collected for another transaction queue', async () => {
+    const { client } = await setupTests()
+    const file = path.join(os.tmpdir(), `signatures-${Date.now()}.json`)
+    await new SignatureCollector(client).save(file)
+
+    const otherClient = new TransactionQueueClient(user1.address, client.chainId, user4)
+    const error = await SignatureCollector.load(otherClient, file).catch((e) => e)
+    await fs.unlink(file)
+
+    expect(error.message).to.eq(`Signatures in ${file} were collected for ${client.address} on chain ${client.chainId}`)
+  })
+})
@@ -0,0 +1,201 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGuard, getTestSafe, getTestStorageSetter, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { chainId } from '../utils/encoding'
+import { TransactionQueueClient } from '../../src/utils/client'
+
+describe('TransactionQueueClient', async () => {
+  const [user1, user2] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const storageSetter = await getTestStorageSetter(user1)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    return {
+      safe,
+      transactionQueueInstance,
+      storageSetter,
+      client,
+    }
+  })
+
+  describe('connect', () => {
+    it('should resolve the chain id from the provider', async () => {
+      const { client } = await setupTests()
+
+      expect(client.chainId).to.eq(await chainId())
+    })
+
+    it('should throw if the signer has no provider', async () => {
+      const { transactionQueueInstance } = await setupTests()
+
+      const error = await TransactionQueueClient.connect(transactionQueueInstance.address, hre.ethers.Wallet.createRandom()).catch(
+        (e: Error) => e.message,
+      )
+
+      expect(error).to.eq('Provider required to retrieve chainId')
+    })
+  })
+
+  describe('propose', () => {
+    it('should use the current queue nonce of the safe', async () => {
+      const { safe, client } = await setupTests()
+
+      const safeTx = await client.propose(safe.address, user1.address, parseEther('1'), '0x', 0)
+      expect(safeTx.nonce).to.eq('0')
+
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+      await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+
+      const nextSafeTx = await client.propose(safe.address, user1.address, parseEther('1'), '0x', 0)
+      expect(nextSafeTx.nonce).to.eq('1')
+    })
+
+    it('should respect an explicitly provided nonce', async () => {
+      const { safe, client } = await setupTests()
+
+      const safeTx = await client.propose(safe.address, user1.address, 0, '0x', 0, 5)
+
+      expect(safeTx.nonce).to.eq('5')
+    })
+  })
+
+  describe('cancellation', () => {
+    it('should retire a signed transaction with a transaction without effect', async () => {
+      const { safe, client } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+      const safeTx = await client.propose(safe.address, user2.address, parseEther('1'), '0x', 0)
+      const signatures = [await client.signTransaction(user1, safeTx)]
+
+      const cancellationTx = await client.buildCancellationTransaction(safe.address, safeTx.nonce)
+      expect(cancellationTx).to.deep.include({ to: safe.address, value: 0, data: '0x', operation: 0, nonce: '0' })
+      await client.execute(cancellationTx, [await client.signTransaction(user1, cancellationTx)])
+
+      expect(await client.getNonce(safe.address)).to.eq(1)
+      expect(await client.execute(safeTx, signatures).catch((e) => e)).to.be.instanceOf(Error)
+      expect(await hre.ethers.provider.getBalance(safe.address)).to.eq(parseEther('1'))
+    })
+
+    it('should invalidate every nonce below the new nonce', async () => {
+      const { safe, client } = await setupTests()
+
+      const invalidationTx = await client.buildNonceInvalidationTransaction(safe.address, 10)
+      expect(invalidationTx.to).to.eq(client.address)
+      expect(invalidationTx.nonce).to.eq('0')
+      await client.execute(invalidationTx, [await client.signTransaction(user1, invalidationTx)])
+
+      expect(await client.getNonce(safe.address)).to.eq(10)
+    })
+  })
+
+  describe('guard', () => {
+    it('should read the guard of the safe and whether the queue calls it', async () => {
+      const { safe, transactionQueueInstance, client } = await setupTests()
+      expect(await client.hasGuard(safe.address)).to.be.false
+
+      const guard = await getTestGuard(user1)
+      await safe.setGuard(guard.address)
+      expect(await client.getGuard(safe.address)).to.eq(guard.address)
+      expect(await client.hasGuard(safe.address)).to.be.true
+      expect(await client.isGuardCheckEnabled(safe.address)).to.be.false
+
+      const safeTx = await client.proposeContractCall(safe.address, transactionQueueInstance, 'setGuardChecks', [true])
+      await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+      expect(await client.isGuardCheckEnabled(safe.address)).to.be.true
+    })
+  })
+
+  describe('hashes', () => {
+    it('should match the on chain transaction and refund params hashes', async () => {
+      const { safe, transactionQueueInstance, storageSetter, client } = await setupTests()
+
+      const safeTx = await client.proposeContractCall(safe.address, storageSetter, 'setStorage', [42])
+      const safeTxHash = await transactionQueueInstance.getTransactionHash(
+        safeTx.safe,
+        safeTx.to,
+        safeTx.value,
+        safeTx.data,
+        safeTx.operation,
+        safeTx.nonce,
+      )
+      expect(client.getTransactionHash(safeTx)).to.eq(safeTxHash)
+
+      const refundParams = client.buildRefundParams(safeTx, AddressZero, 150000, 10000000000, user2.address)
+      expect(refundParams.safeTxHash).to.eq(safeTxHash)
+      expect(client.getRefundParamsHash(refundParams)).to.eq(
+        await transactionQueueInstance.getRefundParamsHash(safeTxHash, AddressZero, 150000, 10000000000, user2.address, 0),
+      )
+    })
+  })
+
+  describe('readConditions', () => {
+    it('should return the refund conditions set by the safe', async () => {
+      const { safe, client } = await setupTests()
+
+      await setRefundConditions(client, safe.address, user1, [AddressZero], 10000000000, 10000000, [user2.address])
+
+      const conditions = await client.readConditions(safe.address, AddressZero)
+      expect(conditions.maxFeePerGas).to.eq(10000000000)
+      expect(conditions.maxGasLimit).to.eq(10000000)
+      expect(conditions.allowedRefundReceiversCount).to.eq(1)
+      expect(conditions.refundEffectiveGasPrice).to.eq(false)
+    })
+  })
+
+  describe('execute', () => {
+    it('should return the parsed execution result', async () => {
+      const { safe, client } = await setupTests()
+
+      const safeTx = await client.propose(safe.address, user1.address, 0, '0x', 0)
+      const result = await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+
+      expect(result.safeTxHash).to.eq(client.getTransactionHash(safeTx))
+      expect(result.payment).to.eq(0)
+      expect(result.receipt.status).to.eq(1)
+    })
+
+    it('should parse the execution of a client created with a lowercase address', async () => {
+      const { safe, transactionQueueInstance } = await setupTests()
+      const client = new TransactionQueueClient(transactionQueueInstance.address.toLowerCase(), await chainId(), user2)
+
+      const safeTx = await client.propose(safe.address, user1.address, 0, '0x', 0)
+      const result = await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+
+      expect(client.address).to.eq(transactionQueueInstance.address)
+      expect(result.safeTxHash).to.eq(client.getTransactionHash(safeTx))
+    })
+  })
+
+  describe('executeWithRefund', () => {
+    it('should return the paid refund', async () => {
+      const { safe, client } = await setupTests()
+      const provider = hre.ethers.provider
+
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+      await setRefundConditions(client, safe.address, user1, [AddressZero], 10000000000, 10000000)
+
+      const safeTx = await client.propose(safe.address, user1.address, parseEther('0.5'), '0x', 0)
+      const refundParams = client.buildRefundParams(safeTx, AddressZero, 120000, 10000000000, user2.address)
+
+      const safeBalanceBefore = await provider.getBalance(safe.address)
+      const result = await client.executeWithRefund(
+        safeTx,
+        [await client.signTransaction(user1, safeTx)],
+        refundParams,
+        await client.signRefundParams(user1, refundParams),
+      )
+      const safeBalanceAfter = await provider.getBalance(safe.address)
+
+      expect(result.safeTxHash).to.eq(refundParams.safeTxHash)
+      expect(result.payment).to.be.gt(0)
+      expect(safeBalanceBefore.sub(safeBalanceAfter)).to.eq(parseEther('0.5').add(result.payment))
+    })
+  })
+})
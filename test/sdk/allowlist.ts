@@ -0,0 +1,63 @@
+import { expect } from 'chai'
+import { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { buildAllowlistUpdate, diffAllowlist } from '../../src/utils/allowlist'
+
+describe('allowlist', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+  const tokenAddress = `0x${'42'.repeat(20)}`
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    return {
+      safe,
+      client,
+    }
+  })
+
+  describe('diffAllowlist', () => {
+    it('should split the addresses into added, removed and unchanged', () => {
+      const diff = diffAllowlist([user2.address, user3.address.toLowerCase(), user3.address], [user1.address, user2.address.toLowerCase()])
+
+      expect(diff).to.deep.eq({
+        added: [user3.address],
+        removed: [user1.address],
+        unchanged: [user2.address],
+      })
+    })
+  })
+
+  describe('buildAllowlistUpdate', () => {
+    it('should propose a transaction replacing the on chain allowlist', async () => {
+      const { safe, client } = await setupTests()
+      const initial = await buildAllowlistUpdate(client, safe.address, tokenAddress, 10000000000, 500000, [user1.address, user2.address])
+      await client.execute(initial.safeTx!, [await client.signTransaction(user1, initial.safeTx!)])
+
+      const update = await buildAllowlistUpdate(client, safe.address, tokenAddress, 10000000000, 500000, [user2.address, user3.address])
+      expect(update.diff).to.deep.eq({ added: [user3.address], removed: [user1.address], unchanged: [user2.address] })
+      await client.execute(update.safeTx!, [await client.signTransaction(user1, update.safeTx!)])
+
+      expect(await client.getRefundReceivers(safe.address, tokenAddress)).to.deep.eq([user2.address, user3.address])
+    })
+
+    it('should not propose a transaction if the conditions match', async () => {
+      const { safe, client } = await setupTests()
+      const initial = await buildAllowlistUpdate(client, safe.address, tokenAddress, 10000000000, 500000, [user2.address])
+      await client.execute(initial.safeTx!, [await client.signTransaction(user1, initial.safeTx!)])
+
+      const unchanged = await buildAllowlistUpdate(client, safe.address, tokenAddress, 10000000000, 500000, [user2.address])
+      const feeChanged = await buildAllowlistUpdate(client, safe.address, tokenAddress, 20000000000, 500000, [user2.address])
+
+      expect(unchanged.safeTx).to.be.undefined
+      expect(feeChanged.safeTx).to.not.be.undefined
+      expect(feeChanged.diff.unchanged).to.deep.eq([user2.address])
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import { utils } from 'ethers'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTestToken, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { encodeTransfer } from '../utils/encoding'
+import { TransactionQueueClient } from '../../src/utils/client'
+import {
+  ExecutionFailureError,
+  InvalidEffectiveGasPriceRefundError,
+  InvalidNonceError,
+  InvalidRefundReceiverError,
+  NotEnoughGasError,
+  PanicError,
+  ReasonStringError,
+  RefundFailureError,
+  RefundGasBoundariesNotMetError,
+  RefundParamsExpiredError,
+  SafeError,
+  UnknownRevertError,
+  decodeRevertData,
+  decodeTransactionQueueError,
+  extractRevertData,
+} from '../../src/utils/errors'
+
+describe('errors', async () => {
+  const [user1, user2] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const token = await getTestToken(user1)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    await setRefundConditions(client, safe.address, user1, [AddressZero], 10000000000, 500000, [user2.address])
+
+    return {
+      safe,
+      token,
+      client,
+    }
+  })
+
+  const executeWithRefund = async (
+    client: TransactionQueueClient,
+    safeAddress: string,
+    refund: { gasLimit?: number; maxFeePerGas?: number; refundReceiver?: string; suppliedGas?: number; validUntil?: number } = {},
+  ) => {
+    const safeTx = await client.propose(safeAddress, user1.address, 0, '0x', 0)
+    const refundParams = client.buildRefundParams(
+      safeTx,
+      AddressZero,
+      refund.gasLimit || 150000,
+      refund.maxFeePerGas || 10000000000,
+      refund.refundReceiver || user2.address,
+      refund.validUntil || 0,
+    )
+    return client
+      .executeWithRefund(
+        safeTx,
+        [await client.signTransaction(user1, safeTx)],
+        refundParams,
+        await client.signRefundParams(user1, refundParams),
+        { gasLimit: refund.suppliedGas || 1000000 },
+      )
+      .catch((e) => e)
+  }
+
+  describe('contract errors', () => {
+    it('should decode ExecutionFailure', async () => {
+      const { safe, token, client } = await setupTests()
+      const safeTx = await client.propose(safe.address, token.address, 0, encodeTransfer(user1.address, 1), 0)
+
+      const error = await client.execute(safeTx, [await client.signTransaction(user1, safeTx)]).catch((e) => e)
+
+      expect(error).to.be.instanceOf(ExecutionFailureError)
+      expect(error.message).to.eq("Transaction reverted with custom error 'ExecutionFailure()'")
+    })
+
+    it('should decode InvalidRefundReceiver', async () => {
+      const { safe, client } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+      expect(await executeWithRefund(client, safe.address, { refundReceiver: user1.address })).to.be.instanceOf(InvalidRefundReceiverError)
+    })
+
+    it('should decode RefundParamsExpired', async () => {
+      const { safe, client } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+      const { timestamp } = await hre.ethers.provider.getBlock('latest')
+
+      expect(await executeWithRefund(client, safe.address, { validUntil: timestamp - 1 })).to.be.instanceOf(RefundParamsExpiredError)
+    })
+
+    it('should decode RefundGasBoundariesNotMet', async () => {
+      const { safe, client } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+      expect(await executeWithRefund(client, safe.address, { maxFeePerGas: 20000000000 })).to.be.instanceOf(RefundGasBoundariesNotMetError)
+    })
+
+    it('should decode RefundFailure', async () => {
+      const { safe, client } = await setupTests()
+
+      expect(await executeWithRefund(client, safe.address)).to.be.instanceOf(RefundFailureError)
+    })
+
+    it('should decode NotEnoughGas', async () => {
+      const { safe, client } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+      expect(await executeWithRefund(client, safe.address, { gasLimit: 400000, suppliedGas: 300000 })).to.be.instanceOf(NotEnoughGasError)
+    })
+
+    it('should decode InvalidNonce', async () => {
+      const { client } = await setupTests()
+
+      const error = await client.contract
+        .connect(user1)
+        .invalidateNonces(0)
+        .catch((e: any) => e)
+
+      expect(decodeTransactionQueueError(error)).to.be.instanceOf(InvalidNonceError)
+    })
+
+    it('should decode InvalidEffectiveGasPriceRefund', async () => {
+      const { token, client } = await setupTests()
+
+      const error = await client.contract
+        .connect(user1)
+        .setEffectiveGasPriceRefund(token.address, true)
+        .catch((e: any) => e)
+
+      expect(decodeTransactionQueueError(error)).to.be.instanceOf(InvalidEffectiveGasPriceRefundError)
+    })
+
+    it('should decode reason strings of the Safe', async () => {
+      const { safe, client } = await setupTests()
+      const safeTx = await client.propose(safe.address, user1.address, 0, '0x', 0)
+
+      const error = await client.execute(safeTx, [{ signer: user1.address, data: '0x' }]).catch((e) => e)
+
+      expect(error).to.be.instanceOf(ReasonStringError)
+      expect(error.reason).to.eq('GnosisSafeMock: Invalid signature')
+    })
+  })
+
+  describe('decodeRevertData', () => {
+    it('should map GS0xx reason strings to their description', async () => {
+      const data = utils.hexConcat(['0x08c379a0', utils.defaultAbiCoder.encode(['string'], ['GS026'])])
+
+      const error = decodeRevertData(data)
+
+      expect(error).to.be.instanceOf(SafeError)
+      expect((error as SafeError).code).to.eq('GS026')
+      expect(error.message).to.eq("Transaction reverted with reason string 'GS026' (Invalid owner provided)")
+    })
+
+    it('should decode panics', async () => {
+      const data = utils.hexConcat(['0x4e487b71', utils.defaultAbiCoder.encode(['uint256'], [0x11])])
+
+      const error = decodeRevertData(data)
+
+      expect(error).to.be.instanceOf(PanicError)
+      expect((error as PanicError).code).to.eq(0x11)
+    })
+
+    it('should keep unknown revert data', async () => {
+      const error = decodeRevertData('0xdeadbeef')
+
+      expect(error).to.be.instanceOf(UnknownRevertError)
+      expect(error.data).to.eq('0xdeadbeef')
+    })
+  })
+
+  describe('extractRevertData', () => {
+    const data = utils.id('NotEnoughGas()').slice(0, 10)
+
+    it('should find revert data nested in JSON-RPC errors', async () => {
+      expect(extractRevertData({ error: { error: { code: 3, data } } })).to.eq(data)
+      expect(extractRevertData({ error: { data: { message: 'execution reverted', data } } })).to.eq(data)
+      expect(extractRevertData({ error: { body: JSON.stringify({ jsonrpc: '2.0', error: { code: 3, data } }) } })).to.eq(data)
+    })
+
+    it('should ignore errors without revert data', async () => {
+      const error = new Error('nonce too low')
+
+      expect(extractRevertData(error)).to.be.undefined
+      expect(decodeTransactionQueueError(error)).to.eq(error)
+    })
+  })
+})
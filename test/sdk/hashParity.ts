@@ -0,0 +1,126 @@
+import { AddressZero } from '@ethersproject/constants'
+import { expect } from 'chai'
+import { BigNumber, utils } from 'ethers'
+import { deployments } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTransactionQueueInstance } from '../utils/setup'
+import { chainId } from '../utils/encoding'
+import {
+  RefundParams,
+  SafeTransaction,
+  calculateRefundParamsHash,
+  calculateSafeTransactionHash,
+  preimageRefundParamsHash,
+  preimageSafeTransactionHash,
+} from '../../src/utils/execution'
+
+// Failing cases can be reproduced with the seed printed in the assertion message
+const SEED = Number(process.env.HASH_PARITY_SEED || Date.now() % 2 ** 32)
+const RUNS = Number(process.env.HASH_PARITY_RUNS || 50)
+
+// mulberry32, small seedable generator so the cases don't depend on Math.random
+const createRandom = (seed: number) => {
+  let state = seed
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+}
+
+describe('hash parity', async () => {
+  const random = createRandom(SEED)
+
+  const randomInt = (max: number): number => Math.floor(random() * max)
+
+  const randomBytes = (length: number): string => utils.hexlify(Array.from({ length }, () => randomInt(256)))
+
+  // Mostly random values, but the boundaries of the type are generated often enough to be covered by every run
+  const randomUint = (bits: number): BigNumber => {
+    const max = BigNumber.from(2).pow(bits).sub(1)
+    const pick = random()
+    if (pick < 0.1) return BigNumber.from(0)
+    if (pick < 0.2) return max
+    return BigNumber.from(randomBytes(1 + randomInt(bits / 8))).and(max)
+  }
+
+  const randomAddress = (): string => {
+    const pick = random()
+    if (pick < 0.1) return AddressZero
+    if (pick < 0.2) return utils.getAddress(`0x${'ff'.repeat(20)}`)
+    return utils.getAddress(randomBytes(20))
+  }
+
+  // Includes empty data, data that isn't a multiple of 32 bytes and data longer than a few words
+  const randomData = (): string => (random() < 0.1 ? '0x' : randomBytes(randomInt(300)))
+
+  const randomSafeTransaction = (): SafeTransaction => ({
+    safe: randomAddress(),
+    to: randomAddress(),
+    value: randomUint(256),
+    data: randomData(),
+    operation: randomInt(2),
+    nonce: randomUint(256).toString(),
+  })
+
+  const randomRefundParams = (): RefundParams => ({
+    safeTxHash: randomBytes(32),
+    gasToken: randomAddress(),
+    gasLimit: randomUint(120),
+    maxFeePerGas: randomUint(120),
+    refundReceiver: randomAddress(),
+    validUntil: randomUint(64),
+  })
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    return {
+      transactionQueueInstance: await getTransactionQueueInstance(),
+    }
+  })
+
+  it(`should match the transaction hash and preimage of the contract (seed ${SEED})`, async () => {
+    const { transactionQueueInstance } = await setupTests()
+    const currentChainId = await chainId()
+
+    for (let run = 0; run < RUNS; run++) {
+      const safeTx = randomSafeTransaction()
+      const params = [safeTx.safe, safeTx.to, safeTx.value, safeTx.data, safeTx.operation, safeTx.nonce]
+      const message = `run ${run} with seed ${SEED}: ${JSON.stringify(safeTx)}`
+
+      expect(await transactionQueueInstance.encodeTransactionData(...params), message).to.eq(
+        preimageSafeTransactionHash(transactionQueueInstance, safeTx, currentChainId),
+      )
+      expect(await transactionQueueInstance.getTransactionHash(...params), message).to.eq(
+        calculateSafeTransactionHash(transactionQueueInstance, safeTx, currentChainId),
+      )
+    }
+  })
+
+  it(`should match the refund params hash and preimage of the contract (seed ${SEED})`, async () => {
+    const { transactionQueueInstance } = await setupTests()
+    const currentChainId = await chainId()
+
+    for (let run = 0; run < RUNS; run++) {
+      const refundParams = randomRefundParams()
+      const params = [
+        refundParams.safeTxHash,
+        refundParams.gasToken,
+        refundParams.gasLimit,
+        refundParams.maxFeePerGas,
+        refundParams.refundReceiver,
+        refundParams.validUntil,
+      ]
+      const message = `run ${run} with seed ${SEED}: ${JSON.stringify(refundParams)}`
+
+      expect(await transactionQueueInstance.encodeRefundParamsData(...params), message).to.eq(
+        preimageRefundParamsHash(transactionQueueInstance, refundParams, currentChainId),
+      )
+      expect(await transactionQueueInstance.getRefundParamsHash(...params), message).to.eq(
+        calculateRefundParamsHash(transactionQueueInstance, refundParams, currentChainId),
+      )
+    }
+  })
+})
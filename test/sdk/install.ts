@@ -0,0 +1,107 @@
+import { AddressZero } from '@ethersproject/constants'
+import { expect } from 'chai'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import {
+  InstallConfig,
+  buildInstallTransactions,
+  createInstallEnvelope,
+  executeInstallEnvelope,
+  getMissingInstallSignatures,
+  parseInstallConfig,
+  signInstallEnvelope,
+  verifyInstallation,
+} from '../../src/utils/install'
+
+describe('install', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address], 2)
+    const multiSendCallOnly = await (await hre.ethers.getContractFactory('MultiSendCallOnly')).connect(user1).deploy()
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user3)
+    const config: InstallConfig = parseInstallConfig({
+      tokens: [
+        {
+          gasToken: AddressZero,
+          maxFeePerGas: '10000000000',
+          maxGasLimit: '500000',
+          refundReceiverAllowlist: [user3.address],
+          refundEffectiveGasPrice: true,
+        },
+        { gasToken: user2.address, maxFeePerGas: '1000', maxGasLimit: '200000', refundGasOverhead: 40000 },
+      ],
+    })
+
+    return {
+      safe,
+      multiSendCallOnly,
+      client,
+      config,
+    }
+  })
+
+  it('should enable the module and set the refund conditions with one Safe transaction', async () => {
+    const { safe, multiSendCallOnly, client, config } = await setupTests()
+    const envelope = await createInstallEnvelope(client, safe.address, config, multiSendCallOnly.address)
+    await signInstallEnvelope(envelope, user1)
+    const missing = await getMissingInstallSignatures(client, envelope)
+    await signInstallEnvelope(envelope, user2)
+
+    expect(envelope.safeTxHash).to.eq(await safe.getTransactionHash(...Object.values(envelope.safeTx)))
+    expect(envelope.safeTx).to.deep.include({ to: multiSendCallOnly.address, operation: 1, nonce: '0' })
+    expect(missing).to.eq(1)
+    expect(await verifyInstallation(client, safe.address, config)).to.have.length(8)
+
+    await executeInstallEnvelope(client, envelope)
+
+    expect(await safe.isModuleEnabled(client.address)).to.be.true
+    expect(await verifyInstallation(client, safe.address, config)).to.deep.eq([])
+  })
+
+  it('should not enable the module again if it is already enabled', async () => {
+    const { client, config } = await setupTests()
+    const safe = await getTestGnosisSafe(user1, [user1.address], 1, client.address)
+
+    const txs = await buildInstallTransactions(client, safe.address, config)
+
+    expect(txs.map((tx) => tx.to)).to.deep.eq([client.address, client.address, client.address, client.address])
+  })
+
+  it('should report the conditions that do not match the config', async () => {
+    const { client, config } = await setupTests()
+    const safe = await getTestGnosisSafe(user1, [user1.address], 1, client.address)
+    const conditionsTx = await client.proposeContractCall(safe.address, client.contract, 'setRefundConditions', [
+      AddressZero,
+      1,
+      500000,
+      [],
+    ])
+    await client.execute(conditionsTx, [await client.signTransaction(user1, conditionsTx)])
+
+    const problems = await verifyInstallation(client, safe.address, { tokens: [config.tokens[0]] })
+
+    expect(problems).to.deep.eq([
+      `Max fee per gas of ${AddressZero} is 1 instead of 10000000000`,
+      `Refund receiver allowlist of ${AddressZero} does not match the config`,
+      `Effective gas price refund of ${AddressZero} is disabled`,
+    ])
+  })
+
+  it('should reject configs without valid refund conditions', async () => {
+    expect(() => parseInstallConfig({})).to.throw('Install config requires a tokens array')
+    expect(() => parseInstallConfig({ tokens: [{ gasToken: 'token', maxFeePerGas: '1', maxGasLimit: '1' }] })).to.throw(
+      /^Invalid refund conditions for token 0 in install config/,
+    )
+    expect(() =>
+      parseInstallConfig({ tokens: [{ gasToken: user2.address, maxFeePerGas: '1', maxGasLimit: '1', refundEffectiveGasPrice: true }] }),
+    ).to.throw(
+      'Invalid refund conditions for token 0 in install config: refunds at the effective gas price are only supported for the native token',
+    )
+  })
+})
@@ -0,0 +1,109 @@
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTestStorageSetter, getTransactionQueueInstance } from '../utils/setup'
+import { encodeTransfer } from '../utils/encoding'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { ExecutionFailureError } from '../../src/utils/errors'
+import { MULTI_SEND_CALL_ONLY_ADDRESS, buildMultiSendTransaction, decodeMultiSend } from '../../src/utils/multisend'
+
+describe('multisend', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestGnosisSafe(user1, [user1.address], 1, transactionQueueInstance.address)
+    const multiSend = await (await hre.ethers.getContractFactory('MultiSend')).connect(user1).deploy()
+    const multiSendCallOnly = await (await hre.ethers.getContractFactory('MultiSendCallOnly')).connect(user1).deploy()
+    const token = await (await hre.ethers.getContractFactory('ERC20Token')).connect(user1).deploy()
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    await token.transfer(safe.address, 1000)
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+    return {
+      safe,
+      multiSend,
+      multiSendCallOnly,
+      token,
+      client,
+    }
+  })
+
+  it('should delegatecall the configured MultiSend', async () => {
+    const { safe, multiSend } = await setupTests()
+
+    const safeTx = buildMultiSendTransaction(
+      safe.address,
+      [{ to: user2.address, value: 1, data: '0x', operation: 0 }],
+      3,
+      multiSend.address,
+    )
+
+    expect(safeTx.to).to.eq(multiSend.address)
+    expect(safeTx.operation).to.eq(1)
+    expect(safeTx.nonce).to.eq('3')
+    expect(buildMultiSendTransaction(safe.address, [{ to: user2.address, value: 1, data: '0x', operation: 0 }], 3).to).to.eq(
+      MULTI_SEND_CALL_ONLY_ADDRESS,
+    )
+  })
+
+  it('should decode the transactions of a MultiSend', async () => {
+    const { safe, token } = await setupTests()
+    const txs = [
+      { to: token.address, value: '0', data: encodeTransfer(user2.address, 10), operation: 0 },
+      { to: user2.address, value: parseEther('0.1').toString(), data: '0x', operation: 0 },
+      { to: token.address, value: '0', data: '0xbaddad', operation: 1 },
+    ]
+
+    const safeTx = buildMultiSendTransaction(safe.address, txs, 0)
+
+    expect(decodeMultiSend(safeTx.data)).to.deep.eq(txs)
+  })
+
+  it('should execute a batch of transfers with MultiSendCallOnly', async () => {
+    const { safe, multiSendCallOnly, token, client } = await setupTests()
+    const transfers = [...Array(10)].map(() => ({ to: token.address, value: 0, data: encodeTransfer(user2.address, 10), operation: 0 }))
+    const txs = [...transfers, { to: user3.address, value: parseEther('0.5'), data: '0x', operation: 0 }]
+    const balanceBefore = await user3.getBalance()
+
+    const safeTx = buildMultiSendTransaction(safe.address, txs, await client.getNonce(safe.address), multiSendCallOnly.address)
+    await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+
+    expect(await token.balanceOf(user2.address)).to.eq(100)
+    expect(await user3.getBalance()).to.eq(balanceBefore.add(parseEther('0.5')))
+    expect(await client.getNonce(safe.address)).to.eq(1)
+  })
+
+  it('should execute delegatecalls with MultiSend', async () => {
+    const { safe, multiSend, client } = await setupTests()
+    const storageSetter = await getTestStorageSetter(user1)
+    const data = storageSetter.interface.encodeFunctionData('setStorage', [42])
+    const txs = [
+      { to: storageSetter.address, value: 0, data, operation: 1 },
+      { to: user2.address, value: 1, data: '0x', operation: 0 },
+    ]
+
+    const safeTx = buildMultiSendTransaction(safe.address, txs, 0, multiSend.address)
+    await client.execute(safeTx, [await client.signTransaction(user1, safeTx)])
+
+    expect(await hre.ethers.provider.getStorageAt(safe.address, `0x${'73'.repeat(32)}`)).to.eq(hre.ethers.utils.hexZeroPad('0x2a', 32))
+  })
+
+  it('should revert all transactions if one fails', async () => {
+    const { safe, multiSendCallOnly, token, client } = await setupTests()
+    const txs = [
+      { to: token.address, value: 0, data: encodeTransfer(user2.address, 10), operation: 0 },
+      { to: token.address, value: 0, data: encodeTransfer(user2.address, 10000), operation: 0 },
+    ]
+
+    const safeTx = buildMultiSendTransaction(safe.address, txs, 0, multiSendCallOnly.address)
+    const error = await client.execute(safeTx, [await client.signTransaction(user1, safeTx)]).catch((e) => e)
+
+    expect(error).to.be.instanceOf(ExecutionFailureError)
+    expect(await token.balanceOf(user2.address)).to.eq(0)
+  })
+})
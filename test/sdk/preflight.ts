@@ -0,0 +1,296 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTestSafe, getTestToken, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import {
+  buildContractSignature,
+  buildPreValidatedSignature,
+  buildSignatureBytes,
+  calculateSafeMessageHash,
+  preimageSafeTransactionHash,
+  signHash,
+} from '../../src/utils/execution'
+import { NotEnoughGasError, RefundParamsExpiredError, decodeTransactionQueueError } from '../../src/utils/errors'
+import { preflightExecTransactionWithRefund } from '../../src/utils/preflight'
+
+describe('preflight', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const token = await getTestToken(user1)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+    await setRefundConditions(client, safe.address, user1, [AddressZero, token.address], 10000000000, 500000, [user2.address])
+
+    return {
+      safe,
+      token,
+      client,
+    }
+  })
+
+  const buildRequest = async (
+    client: TransactionQueueClient,
+    safeAddress: string,
+    refund: { gasToken?: string; gasLimit?: number; maxFeePerGas?: number; refundReceiver?: string; validUntil?: number } = {},
+  ) => {
+    const safeTx = await client.propose(safeAddress, user1.address, parseEther('0.1'), '0x', 0)
+    const refundParams = client.buildRefundParams(
+      safeTx,
+      refund.gasToken || AddressZero,
+      refund.gasLimit || 150000,
+      refund.maxFeePerGas || 10000000000,
+      refund.refundReceiver || user2.address,
+      refund.validUntil || 0,
+    )
+    return {
+      safeTx,
+      signatures: [await client.signTransaction(user1, safeTx)],
+      refundParams,
+      refundSignature: await client.signRefundParams(user1, refundParams),
+    }
+  }
+
+  it('should not report problems for a valid request', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address)
+
+    expect(await preflightExecTransactionWithRefund(client, { ...request, suppliedGas: 200000 })).to.deep.eq([])
+  })
+
+  it('should report a nonce mismatch', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user1.address, 0, '0x', 0, 5)
+    const refundParams = client.buildRefundParams(safeTx, AddressZero, 150000, 10000000000, user2.address)
+
+    const problems = await preflightExecTransactionWithRefund(client, {
+      safeTx,
+      signatures: [await client.signTransaction(user1, safeTx)],
+      refundParams,
+      refundSignature: await client.signRefundParams(user1, refundParams),
+    })
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['NonceMismatch'])
+  })
+
+  it('should report transaction signatures of non owners', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address)
+    request.signatures = [await client.signTransaction(user2, request.safeTx)]
+
+    const problems = await preflightExecTransactionWithRefund(client, request)
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['InvalidTransactionSignature'])
+  })
+
+  it('should report refund params signed for another transaction', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address)
+    request.refundParams.safeTxHash = `0x${'00'.repeat(32)}`
+
+    const problems = await preflightExecTransactionWithRefund(client, request)
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['InvalidRefundSignature'])
+  })
+
+  it('should report refund signatures that do not recover to the claimed signer', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address)
+    const otherSignature = await signHash(user2, client.getRefundParamsHash(request.refundParams))
+    request.refundSignature = { signer: user1.address, data: otherSignature.data }
+
+    const problems = await preflightExecTransactionWithRefund(client, request)
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['InvalidRefundSignature'])
+  })
+
+  it('should report refund receivers that are not allowed', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address, { refundReceiver: user1.address })
+
+    const problems = await preflightExecTransactionWithRefund(client, request)
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['InvalidRefundReceiver'])
+  })
+
+  it('should report refund params outside of the refund conditions', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address, { gasLimit: 600000, maxFeePerGas: 20000000000 })
+
+    const problems = await preflightExecTransactionWithRefund(client, request)
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['RefundGasBoundariesNotMet', 'RefundGasBoundariesNotMet'])
+  })
+
+  it('should report expired refund params', async () => {
+    const { safe, client } = await setupTests()
+    const { timestamp } = await hre.ethers.provider.getBlock('latest')
+    const request = await buildRequest(client, safe.address, { validUntil: timestamp - 1 })
+
+    const problems = await preflightExecTransactionWithRefund(client, request)
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['RefundParamsExpired'])
+    expect(
+      await preflightExecTransactionWithRefund(client, await buildRequest(client, safe.address, { validUntil: timestamp + 60 })),
+    ).to.deep.eq([])
+  })
+
+  it('should report refund params that expire at the latest block', async () => {
+    const { safe, client } = await setupTests()
+    const { timestamp } = await hre.ethers.provider.getBlock('latest')
+    const { safeTx, signatures, refundParams, refundSignature } = await buildRequest(client, safe.address, { validUntil: timestamp })
+
+    const problems = await preflightExecTransactionWithRefund(client, { safeTx, signatures, refundParams, refundSignature })
+    const error = await client
+      .executeWithRefund(safeTx, signatures, refundParams, refundSignature, { gasLimit: 1000000 })
+      .catch((e) => decodeTransactionQueueError(e))
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['RefundParamsExpired'])
+    expect(error).to.be.instanceOf(RefundParamsExpiredError)
+  })
+
+  it('should report supplied gas below the signed gas limit', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address)
+
+    const problems = await preflightExecTransactionWithRefund(client, { ...request, suppliedGas: 100000 })
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['NotEnoughGas'])
+  })
+
+  it('should report supplied gas that only covers the signed gas limit', async () => {
+    const { safe, client } = await setupTests()
+    const request = await buildRequest(client, safe.address)
+    const { safeTx, signatures, refundParams, refundSignature } = request
+
+    // The gas used before the contract reads `gasleft()` has to be supplied in addition to the signed gas limit
+    const problems = await preflightExecTransactionWithRefund(client, { ...request, suppliedGas: 150000 })
+    const error = await client
+      .executeWithRefund(safeTx, signatures, refundParams, refundSignature, { gasLimit: 150000 })
+      .catch((e) => decodeTransactionQueueError(e))
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['NotEnoughGas'])
+    expect(error).to.be.instanceOf(NotEnoughGasError)
+    expect(await preflightExecTransactionWithRefund(client, { ...request, suppliedGas: 152100 })).to.deep.eq([])
+    await client.executeWithRefund(safeTx, signatures, refundParams, refundSignature, { gasLimit: 152100 })
+  })
+
+  it('should report a native balance that does not cover the maximum refund', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user1.address, parseEther('1'), '0x', 0)
+    const refundParams = client.buildRefundParams(safeTx, AddressZero, 150000, 10000000000, user2.address)
+
+    const problems = await preflightExecTransactionWithRefund(client, {
+      safeTx,
+      signatures: [await client.signTransaction(user1, safeTx)],
+      refundParams,
+      refundSignature: await client.signRefundParams(user1, refundParams),
+    })
+
+    expect(problems.map((p) => p.code)).to.deep.eq(['RefundFailure'])
+  })
+
+  it('should report a token balance that does not cover the maximum refund', async () => {
+    const { safe, token, client } = await setupTests()
+    const request = await buildRequest(client, safe.address, { gasToken: token.address, maxFeePerGas: 1000000000 })
+
+    expect((await preflightExecTransactionWithRefund(client, request)).map((p) => p.code)).to.deep.eq(['RefundFailure'])
+
+    await token.transfer(safe.address, 150000 * 1000000000)
+    expect(await preflightExecTransactionWithRefund(client, request)).to.deep.eq([])
+  })
+
+  describe('with a threshold of 2', () => {
+    const setupMultisigTests = deployments.createFixture(async ({ deployments }) => {
+      await deployments.fixture()
+
+      const transactionQueueInstance = await getTransactionQueueInstance()
+      const ownerSafe = await getTestGnosisSafe(user1, [user3.address], 1)
+      const safe = await getTestGnosisSafe(user1, [user1.address, user2.address, ownerSafe.address], 2, transactionQueueInstance.address)
+      const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+      const conditionsTx = await client.proposeContractCall(safe.address, client.contract, 'setRefundConditions', [
+        AddressZero,
+        10000000000,
+        500000,
+        [user2.address],
+      ])
+      await client.execute(conditionsTx, [
+        await client.signTransaction(user1, conditionsTx),
+        await client.signTransaction(user2, conditionsTx),
+      ])
+
+      return {
+        safe,
+        ownerSafe,
+        client,
+      }
+    })
+
+    it('should not report problems for signatures of two owners', async () => {
+      const { safe, client } = await setupMultisigTests()
+      const request = await buildRequest(client, safe.address)
+      request.signatures.push(await client.signTransaction(user2, request.safeTx))
+
+      expect(await preflightExecTransactionWithRefund(client, request)).to.deep.eq([])
+    })
+
+    it('should report signatures below the threshold', async () => {
+      const { safe, client } = await setupMultisigTests()
+      const request = await buildRequest(client, safe.address)
+
+      const problems = await preflightExecTransactionWithRefund(client, request)
+
+      expect(problems.map((p) => p.code)).to.deep.eq(['InvalidTransactionSignature'])
+      expect(problems[0].message).to.eq('1 signatures do not reach the threshold of 2')
+    })
+
+    it('should report owners that signed more than once', async () => {
+      const { safe, client } = await setupMultisigTests()
+      const request = await buildRequest(client, safe.address)
+      request.signatures.push(request.signatures[0])
+
+      const problems = await preflightExecTransactionWithRefund(client, request)
+
+      expect(problems.map((p) => p.code)).to.deep.eq(['InvalidTransactionSignature'])
+      expect(problems[0].message).to.eq(`${user1.address} signed more than once`)
+    })
+
+    it('should report pre-validated signatures of owners that did not approve the hash', async () => {
+      const { safe, client } = await setupMultisigTests()
+      const request = await buildRequest(client, safe.address)
+      request.signatures.push(buildPreValidatedSignature(user2.address))
+
+      expect((await preflightExecTransactionWithRefund(client, request)).map((p) => p.code)).to.deep.eq(['InvalidTransactionSignature'])
+
+      await safe.connect(user2).approveHash(client.getTransactionHash(request.safeTx))
+      expect(await preflightExecTransactionWithRefund(client, request)).to.deep.eq([])
+    })
+
+    it('should report contract signatures that are not valid', async () => {
+      const { safe, ownerSafe, client } = await setupMultisigTests()
+      const request = await buildRequest(client, safe.address)
+      const invalidSignature = buildSignatureBytes([await signHash(user3, client.getTransactionHash(request.safeTx))])
+      request.signatures.push(buildContractSignature(ownerSafe.address, invalidSignature))
+
+      expect((await preflightExecTransactionWithRefund(client, request)).map((p) => p.code)).to.deep.eq(['InvalidTransactionSignature'])
+
+      const messageHash = calculateSafeMessageHash(
+        ownerSafe,
+        preimageSafeTransactionHash(client.contract, request.safeTx, client.chainId),
+        client.chainId,
+      )
+      request.signatures[1] = buildContractSignature(ownerSafe.address, buildSignatureBytes([await signHash(user3, messageHash)]))
+      expect(await preflightExecTransactionWithRefund(client, request)).to.deep.eq([])
+    })
+  })
+})
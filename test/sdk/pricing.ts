@@ -0,0 +1,139 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther, parseUnits } from '@ethersproject/units'
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTestToken, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { GasTokenPricer, OraclePriceSource, StaticPriceSource, calculateDeviationBps, convertGasPrice } from '../../src/utils/pricing'
+
+describe('pricing', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+  // 1 RelayerToken is worth 1,000,000 ETH, the test supply is too small for realistic prices
+  const tokenPrice = parseEther('1000000')
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const token = await getTestToken(user1)
+    const oracle = await (await hre.ethers.getContractFactory('PriceOracleMock')).connect(user1).deploy(8, parseUnits('1000000', 8))
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    await token.transfer(safe.address, await token.balanceOf(user1.address))
+    await setRefundConditions(client, safe.address, user1, [token.address], 10000, 500000)
+
+    return {
+      safe,
+      token,
+      oracle,
+      client,
+    }
+  })
+
+  describe('convertGasPrice', () => {
+    it('should normalize the decimals of the gas token and the price', () => {
+      // 1 token is worth 0.0005 ETH, reported with 18 decimals like the USDC/ETH feed
+      const price = { price: parseEther('0.0005'), decimals: 18 }
+
+      // 20 gwei are 0.00000002 ETH or 0.00004 tokens, USDC has 6 decimals
+      expect(convertGasPrice(parseUnits('20', 'gwei'), price, 6)).to.eq(40)
+      expect(convertGasPrice(parseUnits('20', 'gwei'), { price: parseUnits('0.0005', 8), decimals: 8 }, 6)).to.eq(40)
+      // DAI has 18 decimals
+      expect(convertGasPrice(parseUnits('20', 'gwei'), price, 18)).to.eq(parseUnits('0.00004', 18))
+    })
+
+    it('should round up', () => {
+      expect(convertGasPrice(1, { price: parseEther('3'), decimals: 18 }, 18)).to.eq(1)
+      expect(convertGasPrice(4, { price: parseEther('3'), decimals: 18 }, 18)).to.eq(2)
+    })
+  })
+
+  describe('calculateDeviationBps', () => {
+    it('should compare prices with different decimals', () => {
+      expect(calculateDeviationBps({ price: parseEther('1.01'), decimals: 18 }, { price: parseUnits('1', 8), decimals: 8 })).to.eq(100)
+      expect(calculateDeviationBps({ price: parseUnits('0.95', 8), decimals: 8 }, { price: parseEther('1'), decimals: 18 })).to.eq(500)
+    })
+  })
+
+  describe('GasTokenPricer', () => {
+    it('should price the refund of a gas token', async () => {
+      const { safe, token, client } = await setupTests()
+      const pricer = new GasTokenPricer(
+        hre.ethers.provider,
+        new StaticPriceSource({ [token.address]: { price: tokenPrice, decimals: 18 } }),
+      )
+      const safeTx = await client.propose(safe.address, user1.address, 0, '0x', 0)
+
+      const refundParams = await pricer.buildRefundParams(
+        client.getTransactionHash(safeTx),
+        token.address,
+        150000,
+        parseUnits('1', 'gwei'),
+        user3.address,
+      )
+      expect(refundParams.maxFeePerGas).to.eq(1000)
+
+      const { payment } = await client.executeWithRefund(
+        safeTx,
+        [await client.signTransaction(user1, safeTx)],
+        refundParams,
+        await client.signRefundParams(user1, refundParams),
+        { gasLimit: 1000000 },
+      )
+      expect(await token.balanceOf(user3.address)).to.eq(payment)
+      expect(payment).to.be.gt(0)
+      expect(payment).to.be.lte(BigNumber.from(150000).mul(1000))
+    })
+
+    it('should keep the gas price for native refunds', async () => {
+      const pricer = new GasTokenPricer(hre.ethers.provider, new StaticPriceSource())
+
+      expect(await pricer.getMaxFeePerGas(AddressZero, parseUnits('30', 'gwei'))).to.eq(parseUnits('30', 'gwei'))
+    })
+
+    it('should read the price from an oracle', async () => {
+      const { token, oracle } = await setupTests()
+      const pricer = new GasTokenPricer(
+        hre.ethers.provider,
+        new OraclePriceSource(hre.ethers.provider, { [token.address]: oracle.address }),
+      )
+
+      expect(await pricer.getPrice(token.address)).to.deep.eq({ price: parseUnits('1000000', 8), decimals: 8 })
+      expect(await pricer.getMaxFeePerGas(token.address, parseUnits('1', 'gwei'))).to.eq(1000)
+    })
+
+    it('should reject prices that deviate from the oracle bound', async () => {
+      const { token, oracle } = await setupTests()
+      const source = new StaticPriceSource({ [token.address]: { price: tokenPrice, decimals: 18 } })
+      const oracleBound = { source: new OraclePriceSource(hre.ethers.provider, { [token.address]: oracle.address }), maxDeviationBps: 100 }
+      const pricer = new GasTokenPricer(hre.ethers.provider, source, oracleBound)
+
+      expect(await pricer.getMaxFeePerGas(token.address, parseUnits('1', 'gwei'))).to.eq(1000)
+
+      source.setPrice(token.address, tokenPrice.div(2), 18)
+      const error = await pricer.getMaxFeePerGas(token.address, parseUnits('1', 'gwei')).catch((e) => e)
+      expect(error.message).to.eq(`Price of ${token.address} deviates 5000 bps from the oracle price, allowed are 100 bps`)
+    })
+
+    it('should reject stale oracle prices', async () => {
+      const { token, oracle } = await setupTests()
+      const source = new OraclePriceSource(hre.ethers.provider, { [token.address]: oracle.address }, 3600)
+      const { timestamp } = await hre.ethers.provider.getBlock('latest')
+      await oracle.setUpdatedAt(timestamp - 7200)
+
+      const error = await source.getPrice(token.address).catch((e) => e)
+      expect(error.message).to.eq(`Price reported by ${oracle.address} is older than 3600 seconds`)
+    })
+
+    it('should throw for unknown gas tokens', async () => {
+      const { token } = await setupTests()
+      const pricer = new GasTokenPricer(hre.ethers.provider, new StaticPriceSource())
+
+      const error = await pricer.getMaxFeePerGas(token.address, 1).catch((e) => e)
+      expect(error.message).to.eq(`No price for gas token ${token.address}`)
+    })
+  })
+})
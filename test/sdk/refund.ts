@@ -0,0 +1,166 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTestStorageSetter, getTransactionQueueInstance, setRefundConditions } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { buildRefundParams } from '../../src/utils/execution'
+import {
+  NATIVE_REFUND_GAS_OVERHEAD,
+  TOKEN_REFUND_GAS_OVERHEAD,
+  WARM_ACCOUNT_ACCESS_DISCOUNT,
+  calculateIntrinsicGas,
+  estimateRefund,
+  getDefaultRefundGasOverhead,
+} from '../../src/utils/refund'
+
+describe('refund', async () => {
+  const [user1, user2] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    // The default refund gas overhead of the contract is calibrated for the Safe contracts
+    const safe = await getTestGnosisSafe(user1, [user1.address], 1, transactionQueueInstance.address)
+    const storageSetter = await getTestStorageSetter(user1)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+    await setRefundConditions(client, safe.address, user1, [AddressZero], 10000000000, 10000000)
+
+    return {
+      safe,
+      storageSetter,
+      client,
+    }
+  })
+
+  const fees = { baseFeePerGas: 9000000000, maxPriorityFeePerGas: 1000000000 }
+
+  describe('calculateIntrinsicGas', () => {
+    it('should charge 4 gas for zero and 16 gas for non zero bytes', async () => {
+      expect(calculateIntrinsicGas('0x')).to.eq(21000)
+      expect(calculateIntrinsicGas('0x0000ff')).to.eq(21000 + 4 + 4 + 16)
+    })
+  })
+
+  describe('getDefaultRefundGasOverhead', () => {
+    it('should discount native refunds to the relayer', async () => {
+      expect(getDefaultRefundGasOverhead(AddressZero, user2.address)).to.eq(NATIVE_REFUND_GAS_OVERHEAD)
+      expect(getDefaultRefundGasOverhead(AddressZero, AddressZero)).to.eq(NATIVE_REFUND_GAS_OVERHEAD - WARM_ACCOUNT_ACCESS_DISCOUNT)
+      expect(getDefaultRefundGasOverhead(user1.address, AddressZero)).to.eq(TOKEN_REFUND_GAS_OVERHEAD)
+      expect(getDefaultRefundGasOverhead(AddressZero, user2.address, user2.address)).to.eq(
+        NATIVE_REFUND_GAS_OVERHEAD - WARM_ACCOUNT_ACCESS_DISCOUNT,
+      )
+    })
+  })
+
+  describe('estimateRefund', () => {
+    it('should cap the refunded gas by the signed gas limit', async () => {
+      const refundParams = buildRefundParams(`0x${'00'.repeat(32)}`, AddressZero, 50000, 10000000000, AddressZero)
+
+      const estimate = estimateRefund(refundParams, '0x', 100000, fees)
+
+      expect(estimate.gasConsumed).to.eq(100000)
+      expect(estimate.refundedGas).to.eq(50000)
+      expect(estimate.payment).to.eq(BigNumber.from(50000).mul(10000000000))
+      expect(estimate.executionCost).to.eq(BigNumber.from(100000).mul(10000000000))
+      expect(estimate.profitable).to.be.false
+    })
+
+    it('should account for the refund gas overhead configured by the safe', async () => {
+      const refundParams = buildRefundParams(`0x${'00'.repeat(32)}`, user1.address, 1000000, 10000000000, AddressZero)
+
+      const estimate = estimateRefund(refundParams, '0x', 100000, fees, { refundGasOverhead: 60000 })
+      const expensiveTransfer = estimateRefund(refundParams, '0x', 100000, fees, {}, 40000)
+
+      expect(estimate.gasConsumed).to.eq(100000 - TOKEN_REFUND_GAS_OVERHEAD + 60000)
+      expect(expensiveTransfer.gasConsumed).to.eq(100000 - 40000 + TOKEN_REFUND_GAS_OVERHEAD)
+    })
+
+    it('should report the payments at the signed and the effective gas price', async () => {
+      const refundParams = buildRefundParams(`0x${'00'.repeat(32)}`, AddressZero, 1000000, 30000000000, AddressZero)
+
+      const signed = estimateRefund(refundParams, '0x', 100000, fees)
+      const effective = estimateRefund(refundParams, '0x', 100000, fees, { refundEffectiveGasPrice: true })
+
+      expect(signed.signedPayment).to.eq(BigNumber.from(100000).mul(30000000000))
+      expect(signed.effectivePayment).to.eq(BigNumber.from(100000).mul(10000000000))
+      expect(signed.saving).to.eq(BigNumber.from(100000).mul(20000000000))
+      expect(signed.payment).to.eq(signed.signedPayment)
+      expect(effective.payment).to.eq(effective.effectivePayment)
+      expect(effective.saving).to.eq(signed.saving)
+    })
+
+    it('should cap the effective gas price by the signed maxFeePerGas', async () => {
+      const refundParams = buildRefundParams(`0x${'00'.repeat(32)}`, AddressZero, 1000000, 5000000000, AddressZero)
+
+      const estimate = estimateRefund(refundParams, '0x', 100000, fees, { refundEffectiveGasPrice: true })
+
+      expect(estimate.payment).to.eq(BigNumber.from(100000).mul(5000000000))
+      expect(estimate.saving).to.eq(0)
+    })
+
+    it('should refund tokens at the signed maxFeePerGas', async () => {
+      const refundParams = buildRefundParams(`0x${'00'.repeat(32)}`, user1.address, 1000000, 30000000000, AddressZero)
+
+      const estimate = estimateRefund(refundParams, '0x', 100000, fees, { refundEffectiveGasPrice: true })
+
+      expect(estimate.payment).to.eq(estimate.signedPayment)
+    })
+
+    it('should predict the payment of the contract for the relayer as explicit refund receiver', async () => {
+      const { safe, storageSetter, client } = await setupTests()
+      const overheadTx = await client.proposeContractCall(safe.address, client.contract, 'setRefundGasOverhead', [AddressZero, 20000])
+      await client.execute(overheadTx, [await client.signTransaction(user1, overheadTx)])
+
+      const safeTx = await client.proposeContractCall(safe.address, storageSetter, 'setStorage', [73])
+      const refundParams = client.buildRefundParams(safeTx, AddressZero, 500000, 10000000000, user2.address)
+      const result = await client.executeWithRefund(
+        safeTx,
+        [await client.signTransaction(user1, safeTx)],
+        refundParams,
+        await client.signRefundParams(user1, refundParams),
+      )
+      const tx = await client.contract.provider.getTransaction(result.receipt.transactionHash)
+
+      const estimate = estimateRefund(
+        refundParams,
+        tx.data,
+        result.receipt.gasUsed,
+        fees,
+        { refundGasOverhead: 20000 },
+        undefined,
+        user2.address,
+      )
+
+      const deviation = estimate.refundedGas.sub(result.payment.div(refundParams.maxFeePerGas)).abs()
+      expect(deviation).to.be.lt(100)
+    })
+
+    for (const size of [0, 2000]) {
+      it(`should predict the payment of the contract for ${size} bytes of payload`, async () => {
+        const { safe, storageSetter, client } = await setupTests()
+
+        const safeTx = await client.proposeContractCall(safe.address, storageSetter, 'setStorage', [73])
+        safeTx.data = `${safeTx.data}${'ab'.repeat(size)}`
+        const refundParams = client.buildRefundParams(safeTx, AddressZero, 500000, 10000000000, AddressZero)
+        const result = await client.executeWithRefund(
+          safeTx,
+          [await client.signTransaction(user1, safeTx)],
+          refundParams,
+          await client.signRefundParams(user1, refundParams),
+        )
+        const tx = await client.contract.provider.getTransaction(result.receipt.transactionHash)
+
+        const estimate = estimateRefund(refundParams, tx.data, result.receipt.gasUsed, fees)
+
+        const deviation = estimate.refundedGas.sub(result.payment.div(refundParams.maxFeePerGas)).abs()
+        expect(deviation).to.be.lt(100)
+      })
+    }
+  })
+})
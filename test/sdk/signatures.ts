@@ -0,0 +1,148 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { SafeError } from '../../src/utils/errors'
+import {
+  buildContractSignature,
+  buildPreValidatedSignature,
+  buildSignatureBytes,
+  calculateSafeMessageHash,
+  preimageSafeTransactionHash,
+  recoverSignatureSigner,
+  signHash,
+} from '../../src/utils/execution'
+
+describe('signatures', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const ownerSafe = await getTestGnosisSafe(user1, [user2.address], 1)
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address, ownerSafe.address], 2, transactionQueueInstance.address)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user3)
+
+    return {
+      safe,
+      ownerSafe,
+      client,
+    }
+  })
+
+  describe('buildSignatureBytes', () => {
+    it('should append contract signatures to the dynamic part', async () => {
+      const owner = `0x${'22'.repeat(20)}`
+      const ecdsaSignature = { signer: `0x${'11'.repeat(20)}`, data: `0x${'aa'.repeat(64)}1f` }
+
+      const signatureBytes = buildSignatureBytes([buildContractSignature(owner, '0xdeadbeef'), ecdsaSignature])
+
+      expect(signatureBytes).to.eq(
+        `0x${'aa'.repeat(64)}1f` +
+          `${owner.slice(2).padStart(64, '0')}${(130).toString(16).padStart(64, '0')}00` +
+          `${'4'.padStart(64, '0')}deadbeef`,
+      )
+    })
+
+    it('should encode the approver of pre-validated signatures in r', async () => {
+      const signature = buildPreValidatedSignature(user1.address)
+
+      expect(signature.data).to.eq(`0x${user1.address.slice(2).padStart(64, '0')}${'0'.repeat(64)}01`)
+      expect(recoverSignatureSigner(`0x${'00'.repeat(32)}`, signature.data)).to.eq(user1.address)
+    })
+  })
+
+  describe('contract signatures', () => {
+    it('should execute with the signature of a Safe owner', async () => {
+      const { safe, ownerSafe, client } = await setupTests()
+      const safeTx = await client.propose(safe.address, user3.address, 0, '0x', 0)
+      // The owner Safe validates the signatures of its owners for the data that is passed to `isValidSignature`
+      const messageHash = calculateSafeMessageHash(
+        ownerSafe,
+        preimageSafeTransactionHash(client.contract, safeTx, client.chainId),
+        client.chainId,
+      )
+      const ownerSafeSignature = buildSignatureBytes([await signHash(user2, messageHash)])
+
+      const { safeTxHash } = await client.execute(safeTx, [
+        await client.signTransaction(user1, safeTx),
+        buildContractSignature(ownerSafe.address, ownerSafeSignature),
+      ])
+
+      expect(safeTxHash).to.eq(client.getTransactionHash(safeTx))
+    })
+
+    it('should revert if the owner Safe did not sign the transaction', async () => {
+      const { safe, ownerSafe, client } = await setupTests()
+      const safeTx = await client.propose(safe.address, user3.address, 0, '0x', 0)
+      const ownerSafeSignature = buildSignatureBytes([await signHash(user2, client.getTransactionHash(safeTx))])
+
+      const error = await client
+        .execute(safeTx, [await client.signTransaction(user1, safeTx), buildContractSignature(ownerSafe.address, ownerSafeSignature)])
+        .catch((e) => e)
+
+      expect(error).to.be.instanceOf(SafeError)
+      expect(error.code).to.eq('GS026')
+    })
+  })
+
+  describe('pre-validated signatures', () => {
+    it('should execute with a hash approved by an owner', async () => {
+      const { safe, client } = await setupTests()
+      const safeTx = await client.propose(safe.address, user3.address, 0, '0x', 0)
+      await safe.connect(user2).approveHash(client.getTransactionHash(safeTx))
+
+      const { safeTxHash } = await client.execute(safeTx, [
+        await client.signTransaction(user1, safeTx),
+        buildPreValidatedSignature(user2.address),
+      ])
+
+      expect(safeTxHash).to.eq(client.getTransactionHash(safeTx))
+    })
+
+    it('should revert if the hash was not approved', async () => {
+      const { safe, client } = await setupTests()
+      const safeTx = await client.propose(safe.address, user3.address, 0, '0x', 0)
+
+      const error = await client
+        .execute(safeTx, [await client.signTransaction(user1, safeTx), buildPreValidatedSignature(user2.address)])
+        .catch((e) => e)
+
+      expect(error).to.be.instanceOf(SafeError)
+      expect(error.code).to.eq('GS025')
+    })
+
+    it('should accept an approved hash as refund signature', async () => {
+      const { safe, client } = await setupTests()
+      await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+      const conditionsTx = await client.proposeContractCall(safe.address, client.contract, 'setRefundConditions', [
+        AddressZero,
+        10000000000,
+        500000,
+        [user3.address],
+      ])
+      await client.execute(conditionsTx, [
+        await client.signTransaction(user1, conditionsTx),
+        await client.signTransaction(user2, conditionsTx),
+      ])
+
+      const safeTx = await client.propose(safe.address, user3.address, 0, '0x', 0)
+      const refundParams = client.buildRefundParams(safeTx, AddressZero, 150000, 10000000000, user3.address)
+      await safe.connect(user1).approveHash(client.getRefundParamsHash(refundParams))
+
+      const { payment } = await client.executeWithRefund(
+        safeTx,
+        [await client.signTransaction(user1, safeTx), await client.signTransaction(user2, safeTx)],
+        refundParams,
+        buildPreValidatedSignature(user1.address),
+        { gasLimit: 1000000 },
+      )
+
+      expect(payment).to.be.gt(0)
+    })
+  })
+})
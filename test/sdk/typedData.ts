@@ -0,0 +1,99 @@
+import { AddressZero } from '@ethersproject/constants'
+import { expect } from 'chai'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import {
+  EIP712_REFUND_PARAMS_TYPE,
+  EIP712_SAFE_TX_TYPE,
+  EIP_DOMAIN,
+  TypedDataPayload,
+  executeTxWithSigners,
+} from '../../src/utils/execution'
+
+describe('typed data', async () => {
+  const [user1, user2] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestSafe(user1, transactionQueueInstance.address)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user2)
+
+    return {
+      safe,
+      client,
+    }
+  })
+
+  // Signs like a browser wallet, through the `eth_signTypedData_v4` RPC method of the node
+  const signTypedDataV4 = async (signer: string, typedData: TypedDataPayload): Promise<string> =>
+    hre.network.provider.send('eth_signTypedData_v4', [signer, JSON.stringify(typedData)])
+
+  it('should sign with JSON-RPC signers', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user2.address, 0, '0x', 0)
+    const signer = hre.ethers.provider.getSigner(user1.address)
+
+    const signature = await client.signTransaction(signer, safeTx)
+    expect(signature).to.deep.eq(await client.signTransaction(user1, safeTx))
+
+    await expect(executeTxWithSigners(client.contract, safeTx, [signer])).to.emit(client.contract, 'SuccessfulExecution')
+  })
+
+  it('should export the eth_signTypedData_v4 payload of a SafeTx', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user2.address, 1, '0xbaddad', 0)
+
+    const typedData = client.getTransactionTypedData(safeTx)
+
+    expect(typedData).to.deep.eq({
+      types: { ...EIP_DOMAIN, ...EIP712_SAFE_TX_TYPE },
+      domain: { chainId: '31337', verifyingContract: client.address.toLowerCase() },
+      primaryType: 'SafeTx',
+      message: {
+        safe: safe.address.toLowerCase(),
+        to: user2.address.toLowerCase(),
+        value: '1',
+        data: '0xbaddad',
+        operation: '0',
+        nonce: '0',
+      },
+    })
+  })
+
+  it('should import SafeTx signatures created with eth_signTypedData_v4', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user2.address, 0, '0x', 0)
+
+    const data = await signTypedDataV4(user1.address, client.getTransactionTypedData(safeTx))
+    const signature = client.importTransactionSignature(safeTx, user1.address, data)
+
+    await expect(client.execute(safeTx, [signature])).to.not.be.reverted
+  })
+
+  it('should import RefundParams signatures created with eth_signTypedData_v4', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user2.address, 0, '0x', 0)
+    const refundParams = client.buildRefundParams(safeTx, AddressZero, 150000, 10000000000, user2.address)
+
+    const typedData = client.getRefundParamsTypedData(refundParams)
+    const signature = client.importRefundSignature(refundParams, user1.address, await signTypedDataV4(user1.address, typedData))
+
+    expect(typedData.types).to.deep.eq({ ...EIP_DOMAIN, ...EIP712_REFUND_PARAMS_TYPE })
+    expect(typedData.primaryType).to.eq('RefundParams')
+    expect(signature).to.deep.eq(await client.signRefundParams(user1, refundParams))
+  })
+
+  it('should reject imported signatures of another signer', async () => {
+    const { safe, client } = await setupTests()
+    const safeTx = await client.propose(safe.address, user2.address, 0, '0x', 0)
+    const data = await signTypedDataV4(user2.address, client.getTransactionTypedData(safeTx))
+
+    expect(() => client.importTransactionSignature(safeTx, user1.address, data)).to.throw(
+      `Signature was signed by ${user2.address} instead of ${user1.address}`,
+    )
+  })
+})
@@ -0,0 +1,71 @@
+import { expect } from 'chai'
+import solc from 'solc'
+import { waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { compareBytecode, stripMetadata } from '../../src/utils/verify'
+
+describe('verify', async () => {
+  const [user1] = waffle.provider.getWallets()
+
+  const source = (comment: string) => `
+  contract Test {
+      // ${comment}
+      address public immutable owner;
+      constructor() { owner = msg.sender; }
+  }`
+
+  const compileTest = (content: string) => {
+    const input = {
+      language: 'Solidity',
+      settings: { outputSelection: { '*': { '*': ['evm.bytecode', 'evm.deployedBytecode'] } } },
+      sources: { 'tmp.sol': { content } },
+    }
+    const { evm } = JSON.parse(solc.compile(JSON.stringify(input))).contracts['tmp.sol'].Test
+    return {
+      bytecode: `0x${evm.bytecode.object}`,
+      deployedBytecode: `0x${evm.deployedBytecode.object}`,
+      immutableReferences: evm.deployedBytecode.immutableReferences,
+    }
+  }
+
+  const deploy = async (bytecode: string): Promise<string> => {
+    const receipt = await (await user1.sendTransaction({ data: bytecode, gasLimit: 6000000 })).wait()
+    return user1.provider.getCode(receipt.contractAddress)
+  }
+
+  it('should ignore immutables that are set in the constructor', async () => {
+    const compiled = compileTest(source('original'))
+    const onChainCode = await deploy(compiled.bytecode)
+
+    expect(onChainCode).to.not.eq(compiled.deployedBytecode)
+    expect(compareBytecode(onChainCode, compiled.deployedBytecode, compiled.immutableReferences)).to.deep.eq({
+      status: 'SUCCESS',
+      reason: 'Ignored 1 immutable references set in the constructor',
+    })
+    expect(compareBytecode(onChainCode, compiled.deployedBytecode)).to.deep.eq({
+      status: 'FAILURE',
+      reason: 'Code differs from the compiled code',
+    })
+  })
+
+  it('should explain if only the metadata hash differs', async () => {
+    const onChainCode = await deploy(compileTest(source('original')).bytecode)
+    const compiled = compileTest(source('changed comment'))
+
+    expect(stripMetadata(compiled.deployedBytecode)).to.not.eq(compiled.deployedBytecode)
+    expect(compareBytecode(onChainCode, compiled.deployedBytecode, compiled.immutableReferences)).to.deep.eq({
+      status: 'FAILURE',
+      reason:
+        'Only the metadata hash differs, the deployment was compiled from other source files (e.g. changed comments or paths) or settings',
+    })
+  })
+
+  it('should fail if there is no code at the address', async () => {
+    const compiled = compileTest(source('original'))
+
+    expect(compareBytecode('0x', compiled.deployedBytecode)).to.deep.eq({
+      status: 'FAILURE',
+      reason: 'No code at the address of the deployment',
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { expect } from 'chai'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import hre from 'hardhat'
+
+describe('codesize task', async () => {
+  const contractname = 'SafeTransactionQueueConditionalRefund'
+
+  const getSize = async () => {
+    const artifact = await hre.artifacts.readArtifact(contractname)
+    return { deployed: (artifact.deployedBytecode.length - 2) / 2, init: (artifact.bytecode.length - 2) / 2 }
+  }
+
+  it('should save a baseline and compare later runs with it', async () => {
+    const baseline = path.join(os.tmpdir(), `codesize-${Date.now()}.json`)
+    const size = await getSize()
+    const fullyQualifiedName = `contracts/SafeTransactionQueueConditionalRefund.sol:${contractname}`
+
+    await hre.run('codesize', { skipcompile: true, contractname, baseline, savebaseline: true })
+    const saved = JSON.parse(await fs.readFile(baseline, 'utf8'))
+    await fs.writeFile(baseline, JSON.stringify({ [fullyQualifiedName]: { deployed: size.deployed + 10, init: size.init - 5 } }))
+    const logs: string[] = []
+    const log = console.log
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    await hre.run('codesize', { skipcompile: true, contractname, baseline }).finally(() => (console.log = log))
+    await fs.unlink(baseline)
+
+    expect(saved).to.deep.eq({ [fullyQualifiedName]: size })
+    expect(logs).to.deep.eq([`${contractname} ${size.deployed} (-10) bytes deployed, ${size.init} (+5) bytes init code`])
+  })
+
+  it('should fail if a contract exceeds its budget', async () => {
+    const { budgets } = hre.config.codesize
+    const size = await getSize()
+    hre.config.codesize.budgets = { [contractname]: size.deployed - 1 }
+
+    const error = await hre.run('codesize', { skipcompile: true, contractname }).catch((e: Error) => e)
+    hre.config.codesize.budgets = budgets
+
+    expect(error.message).to.eq(
+      `Code size limits exceeded:\n${contractname} exceeds its budget of ${size.deployed - 1} bytes (${size.deployed} bytes deployed)`,
+    )
+  })
+
+  it('should not apply the limits to dependencies and test contracts', async () => {
+    // GnosisSafe is compiled without optimizer for the tests and is larger than the EIP-170 limit
+    expect((await hre.artifacts.readArtifact('GnosisSafe')).deployedBytecode.length).to.be.gt(2 * 24576)
+
+    await hre.run('codesize', { skipcompile: true, contractname: 'GnosisSafe' })
+  })
+})
@@ -0,0 +1,91 @@
+import { expect } from 'chai'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { calculateDeterministicAddress, readRegistry } from '../../src/utils/registry'
+
+describe('deployment registry', async () => {
+  const [user1] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    // Deployments on the hardhat network don't include the metadata that is saved for live networks
+    const deployment = {
+      ...(await deployments.get('SafeTransactionQueueConditionalRefund')),
+      metadata: JSON.stringify({ compiler: { version: '0.8.9+commit.e5eed63a' } }),
+    }
+    const folder = path.join(os.tmpdir(), `deployments-${Date.now()}`)
+    const output = path.join(folder, 'registry.json')
+
+    return {
+      transactionQueueInstance,
+      deployment,
+      folder,
+      output,
+    }
+  })
+
+  // Saves the deployment like hardhat-deploy does for a live network
+  const saveDeployment = async (folder: string, network: string, chainId: number, deployment: any) => {
+    await fs.mkdir(path.join(folder, network), { recursive: true })
+    await fs.writeFile(path.join(folder, network, '.chainId'), chainId.toString())
+    await fs.writeFile(path.join(folder, network, 'SafeTransactionQueueConditionalRefund.json'), JSON.stringify(deployment))
+  }
+
+  it('should compute the address of the deterministic deployment', async () => {
+    const { transactionQueueInstance, deployment } = await setupTests()
+
+    expect(calculateDeterministicAddress(deployment.bytecode!!)).to.eq(transactionQueueInstance.address)
+  })
+
+  it('should write the deployments of all networks to the registry', async () => {
+    const { transactionQueueInstance, deployment, folder, output } = await setupTests()
+    await saveDeployment(folder, 'mainnet', 1, deployment)
+    await saveDeployment(folder, 'goerli', 5, deployment)
+
+    await hre.run('deployment-registry', { deployments: folder, output, skipcompile: true })
+    const registry = await readRegistry(output)
+    await fs.rm(folder, { recursive: true })
+
+    const entry = {
+      address: transactionQueueInstance.address,
+      bytecodeHash: hre.ethers.utils.keccak256(deployment.bytecode!!),
+      solcVersion: '0.8.9+commit.e5eed63a',
+    }
+    expect(registry).to.deep.eq({ '1': entry, '5': entry })
+  })
+
+  it('should fail if a deployment does not match the deterministic address', async () => {
+    const { transactionQueueInstance, deployment, folder, output } = await setupTests()
+    await saveDeployment(folder, 'mainnet', 1, deployment)
+    await saveDeployment(folder, 'goerli', 5, { ...deployment, address: user1.address })
+
+    const error = await hre.run('deployment-registry', { deployments: folder, output, skipcompile: true }).catch((e: Error) => e)
+    const written = await fs.stat(output).catch(() => undefined)
+    await fs.rm(folder, { recursive: true })
+
+    expect(error.message).to.eq(
+      'Deployments do not match the deterministic address:\n' +
+        `goerli (chain 5): deployed at ${user1.address} instead of ${transactionQueueInstance.address}, different factory or salt`,
+    )
+    expect(written).to.be.undefined
+  })
+
+  it('should connect the client to the queue of the registry', async () => {
+    const { transactionQueueInstance } = await setupTests()
+    const { chainId } = await hre.ethers.provider.getNetwork()
+    const registry = { [chainId]: { address: transactionQueueInstance.address, bytecodeHash: '0x', solcVersion: '0.8.9' } }
+
+    const client = await TransactionQueueClient.connectWithRegistry(registry, user1)
+    const error = await TransactionQueueClient.connectWithRegistry({}, user1).catch((e) => e)
+
+    expect(client.address).to.eq(transactionQueueInstance.address)
+    expect(error.message).to.eq(`No deployment of the transaction queue on chain ${chainId}`)
+  })
+})
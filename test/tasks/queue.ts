@@ -0,0 +1,223 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseEther } from '@ethersproject/units'
+import { expect } from 'chai'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import hre, { deployments, waffle } from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import { getTestGnosisSafe, getTransactionQueueInstance } from '../utils/setup'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { TransactionEnvelope, addEnvelopeSignature, readEnvelope, writeEnvelope } from '../../src/utils/envelope'
+import { buildContractSignature, buildPreValidatedSignature } from '../../src/utils/execution'
+import { readInstallEnvelope } from '../../src/utils/install'
+
+describe('queue tasks', async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets()
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture()
+
+    const transactionQueueInstance = await getTransactionQueueInstance()
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address], 2, transactionQueueInstance.address)
+    const client = await TransactionQueueClient.connect(transactionQueueInstance.address, user3)
+    const file = path.join(os.tmpdir(), `queue-tx-${Date.now()}.json`)
+
+    return {
+      safe,
+      client,
+      file,
+    }
+  })
+
+  const readJson = async (file: string): Promise<TransactionEnvelope> => JSON.parse(await fs.readFile(file, 'utf8'))
+
+  it('should execute a transaction signed by the owners from the envelope', async () => {
+    const { safe, client, file } = await setupTests()
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+
+    await hre.run('queue:propose', { safe: safe.address, to: user3.address, value: parseEther('0.5').toString(), file })
+    await hre.run('queue:sign', { file, signer: user1.address })
+    await hre.run('queue:sign', { file, signer: user2.address })
+    const envelope = await readEnvelope(client, file)
+    await hre.run('queue:exec', { file })
+    await fs.unlink(file)
+
+    expect(envelope.safeTxHash).to.eq(client.getTransactionHash(envelope.safeTx))
+    expect(envelope.signatures.map((s) => s.signer)).to.deep.eq([user1.address, user2.address])
+    expect(await client.getNonce(safe.address)).to.eq(1)
+    expect(await hre.ethers.provider.getBalance(safe.address)).to.eq(parseEther('0.5'))
+  })
+
+  it('should execute with refund if the envelope contains refund params', async () => {
+    const { safe, client, file } = await setupTests()
+    await user1.sendTransaction({ to: safe.address, value: parseEther('1') })
+    const conditionsTx = await client.proposeContractCall(safe.address, client.contract, 'setRefundConditions', [
+      AddressZero,
+      10000000000,
+      500000,
+      [],
+    ])
+    await client.execute(conditionsTx, [
+      await client.signTransaction(user1, conditionsTx),
+      await client.signTransaction(user2, conditionsTx),
+    ])
+
+    await hre.run('queue:propose', { safe: safe.address, to: user3.address, file })
+    await hre.run('queue:sign', { file, signer: user1.address })
+    await hre.run('queue:sign', { file, signer: user2.address })
+    await hre.run('queue:sign-refund', {
+      file,
+      signer: user2.address,
+      gastoken: AddressZero,
+      gaslimit: '150000',
+      maxfeepergas: '10000000000',
+      refundreceiver: AddressZero,
+    })
+    const envelope = await readJson(file)
+    await hre.run('queue:exec', { file, gaslimit: 1000000 })
+    await fs.unlink(file)
+
+    expect(envelope.refundParams).to.deep.eq({
+      safeTxHash: envelope.safeTxHash,
+      gasToken: AddressZero,
+      gasLimit: '150000',
+      maxFeePerGas: '10000000000',
+      refundReceiver: AddressZero,
+      validUntil: '0',
+    })
+    expect(envelope.refundSignature?.signer).to.eq(user2.address)
+    expect(await hre.ethers.provider.getBalance(safe.address)).to.be.lt(parseEther('1'))
+  })
+
+  it('should import signatures created outside of the task', async () => {
+    const { safe, client, file } = await setupTests()
+    await hre.run('queue:propose', { safe: safe.address, to: user3.address, file })
+    const { safeTx } = await readJson(file)
+    const signature = await client.signTransaction(user2, safeTx)
+
+    await hre.run('queue:sign', { file, signer: user2.address, signature: signature.data })
+    const error = await hre.run('queue:sign', { file, signer: user1.address, signature: signature.data }).catch((e: Error) => e)
+    const envelope = await readJson(file)
+    await fs.unlink(file)
+
+    expect(envelope.signatures).to.deep.eq([signature])
+    expect(error.message).to.eq(`Signature was signed by ${user2.address} instead of ${user1.address}`)
+  })
+
+  it('should reject forged pre-validated and contract signatures', async () => {
+    const { safe, client, file } = await setupTests()
+    await hre.run('queue:propose', { safe: safe.address, to: user3.address, file })
+    const envelope = await readEnvelope(client, file)
+    await fs.unlink(file)
+
+    const preValidatedError = await addEnvelopeSignature(client, envelope, buildPreValidatedSignature(user2.address)).catch((e) => e)
+    const contractError = await addEnvelopeSignature(client, envelope, buildContractSignature(user1.address, '0x')).catch((e) => e)
+
+    expect(preValidatedError.message).to.eq(`${user2.address} did not approve ${envelope.safeTxHash}`)
+    expect(contractError.message).to.eq(`Contract signature of ${user1.address} is not valid`)
+    expect(envelope.signatures).to.deep.eq([])
+  })
+
+  it('should cancel a nonce with a transaction without effect', async () => {
+    const { safe, client, file } = await setupTests()
+    await hre.run('queue:cancel', { safe: safe.address, file })
+    await hre.run('queue:sign', { file, signer: user1.address })
+    await hre.run('queue:sign', { file, signer: user2.address })
+    const envelope = await readJson(file)
+    await hre.run('queue:exec', { file })
+    await fs.unlink(file)
+
+    expect(envelope.safeTx).to.deep.include({ to: safe.address, data: '0x', nonce: '0' })
+    expect(await client.getNonce(safe.address)).to.eq(1)
+  })
+
+  it('should refuse to execute if the envelope hash does not match the on chain hash', async () => {
+    const { safe, client, file } = await setupTests()
+    await hre.run('queue:propose', { safe: safe.address, to: user3.address, file })
+    await hre.run('queue:sign', { file, signer: user1.address })
+    await hre.run('queue:sign', { file, signer: user2.address })
+    const envelope = await readJson(file)
+    const onChainHash = envelope.safeTxHash
+    envelope.safeTxHash = `0x${'00'.repeat(32)}`
+    await writeEnvelope(file, envelope)
+
+    const error = await hre.run('queue:exec', { file }).catch((e: Error) => e)
+    await fs.unlink(file)
+
+    expect(error.message).to.eq(`Envelope hash ${envelope.safeTxHash} does not match on chain hash ${onChainHash}`)
+    expect(await client.getNonce(safe.address)).to.eq(0)
+  })
+
+  it('should not read envelopes of another transaction queue', async () => {
+    const { safe, file } = await setupTests()
+    await hre.run('queue:propose', { safe: safe.address, to: user3.address, file })
+    const envelope = await readJson(file)
+    const otherClient = new TransactionQueueClient(user1.address, envelope.chainId, user3)
+
+    const error = await readEnvelope(otherClient, file).catch((e) => e)
+    await fs.unlink(file)
+
+    expect(error.message).to.eq(`Envelope ${file} was created for ${envelope.transactionQueue} on chain ${envelope.chainId}`)
+  })
+
+  it('should install the queue on a Safe with the signatures of several runs', async () => {
+    const { client, file } = await setupTests()
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address], 2)
+    const multiSendCallOnly = await (await hre.ethers.getContractFactory('MultiSendCallOnly')).connect(user1).deploy()
+    const config = path.join(os.tmpdir(), `queue-install-config-${Date.now()}.json`)
+    await fs.writeFile(config, JSON.stringify({ tokens: [{ gasToken: AddressZero, maxFeePerGas: '10000000000', maxGasLimit: '500000' }] }))
+
+    const args = { safe: safe.address, conditions: config, file, multisend: multiSendCallOnly.address }
+    await hre.run('queue:install', { ...args, signers: user1.address })
+    const moduleEnabledAfterFirstRun = await safe.isModuleEnabled(client.address)
+    await hre.run('queue:install', { ...args, signers: user2.address })
+    await fs.unlink(file)
+    await fs.unlink(config)
+
+    expect(moduleEnabledAfterFirstRun).to.be.false
+    expect(await safe.isModuleEnabled(client.address)).to.be.true
+    const conditions = await client.readConditions(safe.address, AddressZero)
+    expect(conditions.maxFeePerGas).to.eq(10000000000)
+    expect(conditions.maxGasLimit).to.eq(500000)
+  })
+
+  it('should not sign the install envelope again in later runs', async () => {
+    const { client, file } = await setupTests()
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address], 2)
+    const config = path.join(os.tmpdir(), `queue-install-config-${Date.now()}.json`)
+    await fs.writeFile(config, JSON.stringify({ tokens: [{ gasToken: AddressZero, maxFeePerGas: '10000000000', maxGasLimit: '500000' }] }))
+
+    await hre.run('queue:install', { safe: safe.address, conditions: config, file })
+    await hre.run('queue:install', { safe: safe.address, conditions: config, file })
+    const envelope = await readInstallEnvelope(client, file)
+    await fs.unlink(file)
+    await fs.unlink(config)
+
+    expect(envelope.signatures.map((s) => s.signer)).to.deep.eq([user1.address])
+  })
+
+  it('should reject install envelopes created for another Safe or config', async () => {
+    const { client, file } = await setupTests()
+    const safe = await getTestGnosisSafe(user1, [user1.address, user2.address], 2)
+    const otherSafe = await getTestGnosisSafe(user1, [user1.address, user2.address], 2)
+    const config = path.join(os.tmpdir(), `queue-install-config-${Date.now()}.json`)
+    await fs.writeFile(config, JSON.stringify({ tokens: [{ gasToken: AddressZero, maxFeePerGas: '10000000000', maxGasLimit: '500000' }] }))
+    await hre.run('queue:install', { safe: safe.address, conditions: config, file, signers: user1.address })
+    const { safeTxHash } = JSON.parse(await fs.readFile(file, 'utf8'))
+
+    const safeError = await hre
+      .run('queue:install', { safe: otherSafe.address, conditions: config, file, signers: user2.address })
+      .catch((e) => e)
+    await fs.writeFile(config, JSON.stringify({ tokens: [{ gasToken: AddressZero, maxFeePerGas: '1', maxGasLimit: '500000' }] }))
+    const configError = await hre
+      .run('queue:install', { safe: safe.address, conditions: config, file, signers: user2.address })
+      .catch((e) => e)
+    await fs.unlink(file)
+    await fs.unlink(config)
+
+    expect(safeError.message).to.eq(`Install envelope ${safeTxHash} was created for ${safe.address}`)
+    expect(configError.message).to.eq(`Install envelope ${safeTxHash} was created for other refund conditions`)
+    expect(await safe.isModuleEnabled(client.address)).to.be.false
+  })
+})
@@ -1,7 +1,9 @@
 import { AddressZero } from '@ethersproject/constants'
 import hre, { deployments } from 'hardhat'
-import { Signer, Contract } from 'ethers'
+import { BigNumberish, Signer, Contract } from 'ethers'
 import solc from 'solc'
+import { TransactionQueueClient } from '../../src/utils/client'
+import { QueueSigner } from '../../src/utils/execution'
 
 export const transactionQueueDeployment = async () => {
   return await deployments.get('SafeTransactionQueueConditionalRefund')
@@ -25,6 +27,60 @@ export const getTestSafe = async (deployer: Signer, moduleAddr?: string) => {
   return safe
 }
 
+export const getTestGnosisSafe = async (deployer: Signer, owners: string[], threshold: number, moduleAddr?: string) => {
+  const singleton = await (await hre.ethers.getContractFactory('GnosisSafe')).connect(deployer).deploy()
+  const proxyFactory = await (await hre.ethers.getContractFactory('GnosisSafeProxyFactory')).connect(deployer).deploy()
+  const moduleSetup = await (await hre.ethers.getContractFactory('SafeModuleSetup')).connect(deployer).deploy()
+  // The fallback handler implements EIP-1271, so the Safe can be an owner of other Safes
+  const fallbackHandler = await (await hre.ethers.getContractFactory('CompatibilityFallbackHandler')).connect(deployer).deploy()
+
+  const setupTo = moduleAddr ? moduleSetup.address : AddressZero
+  const setupData = moduleAddr ? moduleSetup.interface.encodeFunctionData('enableModule', [moduleAddr]) : '0x'
+  const initializer = singleton.interface.encodeFunctionData('setup', [
+    owners,
+    threshold,
+    setupTo,
+    setupData,
+    fallbackHandler.address,
+    AddressZero,
+    0,
+    AddressZero,
+  ])
+  const receipt = await (await proxyFactory.createProxy(singleton.address, initializer)).wait()
+  const proxyCreation = receipt.events.find((event: any) => event.event === 'ProxyCreation')
+
+  return singleton.attach(proxyCreation.args.proxy)
+}
+
+export const getTestToken = async (deployer: Signer) => {
+  return (await hre.ethers.getContractFactory('ERC20Token')).connect(deployer).deploy()
+}
+
+// Sets the same refund conditions for every gas token, `owner` has to be the only owner of the Safe
+export const setRefundConditions = async (
+  client: TransactionQueueClient,
+  safe: string,
+  owner: QueueSigner,
+  gasTokens: string[],
+  maxFeePerGas: BigNumberish,
+  maxGasLimit: BigNumberish,
+  refundReceiverAllowlist: string[] = [],
+) => {
+  for (const gasToken of gasTokens) {
+    const conditionsTx = await client.proposeContractCall(safe, client.contract, 'setRefundConditions', [
+      gasToken,
+      maxFeePerGas,
+      maxGasLimit,
+      refundReceiverAllowlist,
+    ])
+    await client.execute(conditionsTx, [await client.signTransaction(owner, conditionsTx)])
+  }
+}
+
+export const getTestGuard = async (deployer: Signer) => {
+  return (await hre.ethers.getContractFactory('TestGuard')).connect(deployer).deploy()
+}
+
 export const getTransactionQueueInstance = async () => {
   return (await transactionQueueContract()).attach((await transactionQueueDeployment()).address)
 }